@@ -0,0 +1,151 @@
+import * as path from 'path';
+import { AbortActionError, errorAsString } from './common.js';
+
+const sourceSeparator = ';' as const;
+const fieldSeparator = ',' as const;
+const escapeCharacter = '`' as const;
+const clearSource = 'clear' as const;
+
+const binarySourceModes = ['read', 'write', 'readwrite'] as const;
+const httpUrlTemplateVariables = /\{(sha|name|version|triplet)\}/g;
+
+/**
+ * Splits text on separator that is not escaped with backtick, escapes are kept in parts
+ */
+function splitEscaped(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let part = '';
+    for (let i = 0; i < text.length; ++i) {
+        const char = text[i]!!;
+        if (char === escapeCharacter) {
+            if (i + 1 >= text.length) {
+                throw Error(`'${text}' ends with unfinished escape sequence`);
+            }
+            part += char + text[++i]!!;
+        } else if (char === separator) {
+            parts.push(part);
+            part = '';
+        } else {
+            part += char;
+        }
+    }
+    parts.push(part);
+    return parts;
+}
+
+function unescapeField(field: string): string {
+    return field.replace(/`(.)/g, '$1');
+}
+
+export function escapeBinarySourceField(value: string): string {
+    return value.replace(/[`,;]/g, (char) => `${escapeCharacter}${char}`);
+}
+
+function validateMode(fields: string[], index: number) {
+    const mode = fields[index];
+    if (mode !== undefined && !binarySourceModes.some((supported) => supported === mode)) {
+        throw Error(`mode '${mode}' is not supported, supported modes are ${binarySourceModes.join(', ')}`);
+    }
+}
+
+function validateFieldsCount(fields: string[], min: number, max: number, syntax: string) {
+    if (fields.length < min || fields.length > max) {
+        throw Error(`expected '${syntax}'`);
+    }
+}
+
+function validateAbsolutePath(value: string, description: string) {
+    if (!path.isAbsolute(value)) {
+        throw Error(`${description} '${value}' is not an absolute path`);
+    }
+}
+
+function validateUrl(value: string, description: string, protocols: string[]) {
+    if (!URL.canParse(value)) {
+        throw Error(`${description} is not a valid URL`);
+    }
+    const protocol = new URL(value).protocol;
+    if (!protocols.includes(protocol)) {
+        throw Error(`${description} has unsupported protocol '${protocol}'`);
+    }
+}
+
+function validateBinarySource(fields: string[]) {
+    const [kind, location] = fields;
+    switch (kind) {
+        case 'files':
+            validateFieldsCount(fields, 2, 3, 'files,<absolute path>[,<mode>]');
+            validateAbsolutePath(location!!, 'path');
+            validateMode(fields, 2);
+            break;
+        case 'http':
+            validateFieldsCount(fields, 2, 4, 'http,<url template>[,<mode>[,<header>]]');
+            validateUrl(location!!.replace(httpUrlTemplateVariables, 'x'), `URL template '${location}'`, ['http:', 'https:']);
+            validateMode(fields, 2);
+            break;
+        case 'nuget':
+            validateFieldsCount(fields, 2, 3, 'nuget,<uri>[,<mode>]');
+            if (!path.isAbsolute(location!!)) {
+                validateUrl(location!!, `feed '${location}'`, ['http:', 'https:']);
+            }
+            validateMode(fields, 2);
+            break;
+        case 'nugetconfig':
+            validateFieldsCount(fields, 2, 3, 'nugetconfig,<absolute path>[,<mode>]');
+            validateAbsolutePath(location!!, 'NuGet config path');
+            validateMode(fields, 2);
+            break;
+        default:
+            throw Error(`source kind '${kind}' is not supported, supported kinds are files, http, nuget and nugetconfig`);
+    }
+}
+
+/**
+ * Validates binary sources from action inputs, each line may contain one or more sources
+ * in the syntax of VCPKG_BINARY_SOURCES. Returns sources as they are written
+ */
+export function parseAdditionalBinarySources(name: string, lines: string[]): string[] {
+    const sources: string[] = [];
+    for (const line of lines) {
+        try {
+            for (const source of splitEscaped(line, sourceSeparator)) {
+                if (source.trim().length === 0) {
+                    continue;
+                }
+                validateBinarySource(splitEscaped(source, fieldSeparator).map(unescapeField));
+                sources.push(source);
+            }
+        } catch (error) {
+            throw new AbortActionError(`Inputs: ${name} has invalid binary source '${line}' with error '${errorAsString(error)}'`);
+        }
+    }
+    return sources;
+}
+
+/**
+ * Sources before the last 'clear' are discarded by vcpkg, so only sources after it are kept
+ */
+function existingBinarySources(value: string): string[] {
+    let sources: string[];
+    try {
+        sources = splitEscaped(value, sourceSeparator);
+    } catch (error) {
+        throw new AbortActionError(`Existing binary sources '${value}' are invalid with error '${errorAsString(error)}'`);
+    }
+    const lastClear = sources.map((source) => source.trim()).lastIndexOf(clearSource);
+    return sources.slice(lastClear + 1).filter((source) => source.trim().length > 0);
+}
+
+/**
+ * Binary cache directory of the action goes first, so that it is checked before slower sources.
+ * Default sources are cleared, sources that were set before are kept after the binary cache directory
+ */
+export function composeBinarySources(cacheDir: string, saveCache: boolean, existing: string | undefined, additional: string[]): string {
+    const sources = [
+        `files${fieldSeparator}${escapeBinarySourceField(cacheDir)}${fieldSeparator}${saveCache ? 'readwrite' : 'read'}`,
+        ...(existing ? existingBinarySources(existing) : []),
+        ...additional
+    ];
+    // Existing sources may already contain the same sources when action is used several times in a job
+    return [clearSource, ...new Set(sources)].join(sourceSeparator);
+}
@@ -0,0 +1,102 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { env } from 'process';
+import { execCommand, pathExists, workspaceDir, workspaceRelativePath } from './common.js';
+
+export const cacheArchiveExtension = '.tar.gz' as const;
+
+/**
+ * Cache entry stored by backend other than GitHub cache
+ */
+export type CacheEntry = {
+    key: string;
+    version: string;
+    createdAt: number;
+};
+
+function tarCommand(): string {
+    // Same as @actions/cache, use bsdtar shipped with Windows instead of GNU tar that may be in PATH
+    if (os.platform() === 'win32') {
+        return path.join(env['SystemRoot'] ?? 'C:\\Windows', 'System32', 'tar.exe');
+    }
+    return 'tar';
+}
+
+/**
+ * Same as version of GitHub cache entry, entry is restored only for the same paths it was saved with.
+ * Paths are normalized the same way as they are stored in archive
+ */
+export function cacheVersion(paths: string[]): string {
+    const normalizedPaths = paths.map((filePath) => filePath.startsWith('!') ? `!${workspaceRelativePath(filePath.slice(1))}` : workspaceRelativePath(filePath));
+    return crypto.createHash('sha256').update([...normalizedPaths, 'tar.gz'].join('\n')).digest('hex');
+}
+
+/**
+ * Creates gzipped tar archive of paths, paths starting with '!' are excluded.
+ * Paths are archived relative to workspace like in @actions/cache,
+ * so that archive can be restored on runner with different workspace location.
+ * Returns false if none of the paths exist
+ */
+export async function createCacheArchive(paths: string[], archiveFilePath: string): Promise<boolean> {
+    const included: string[] = [];
+    const excluded: string[] = [];
+    for (const filePath of paths) {
+        if (filePath.startsWith('!')) {
+            excluded.push(workspaceRelativePath(filePath.slice(1)));
+        } else if (await pathExists(filePath)) {
+            included.push(workspaceRelativePath(filePath));
+        } else {
+            console.info(`${filePath} does not exist, it is not added to cache`);
+        }
+    }
+    if (included.length === 0) {
+        return false;
+    }
+    // Pax format keeps sub-second mtimes which are used to match packages with their index entries
+    await execCommand(tarCommand(), [
+        '-czf', archiveFilePath,
+        '--format=pax',
+        '-P',
+        '-C', workspaceDir(),
+        ...excluded.map((filePath) => `--exclude=${filePath}`),
+        '--',
+        ...included
+    ]);
+    return true;
+}
+
+export async function extractCacheArchive(archiveFilePath: string) {
+    const baseDir = workspaceDir();
+    await fs.mkdir(baseDir, { recursive: true });
+    await execCommand(tarCommand(), ['-xzf', archiveFilePath, '-P', '-C', baseDir]);
+}
+
+/**
+ * Temporary file for archive that is uploaded or downloaded. Returns path of file and function that removes it
+ */
+export async function temporaryArchivePath(): Promise<[string, () => Promise<void>]> {
+    const dir = await fs.mkdtemp(path.join(env['RUNNER_TEMP'] || os.tmpdir(), 'action-setup-vcpkg-archive-'));
+    return [path.join(dir, `cache${cacheArchiveExtension}`), () => fs.rm(dir, { recursive: true, force: true })];
+}
+
+/**
+ * Matches entries the same way as GitHub cache: only entries with the same version are considered,
+ * entry with exact key first, then the most recently created entry which key starts with key
+ * or with one of restore keys, in their order
+ */
+export function matchCacheEntry<T extends CacheEntry>(allEntries: T[], version: string, key: string, restoreKeys: string[]): T | undefined {
+    const entries = allEntries.filter((entry) => entry.version === version);
+    const exactMatch = entries.find((entry) => entry.key === key);
+    if (exactMatch !== undefined) {
+        return exactMatch;
+    }
+    for (const prefix of [key, ...restoreKeys]) {
+        const matches = entries.filter((entry) => entry.key.startsWith(prefix));
+        if (matches.length > 0) {
+            return matches.reduce((latest, entry) => entry.createdAt > latest.createdAt ? entry : latest);
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,136 @@
+import * as cache from '@actions/cache';
+import * as core from '@actions/core';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { cacheArchiveExtension, CacheEntry, cacheVersion, createCacheArchive, extractCacheArchive, matchCacheEntry } from './cacheArchive.js';
+import { errorAsString, Inputs } from './common.js';
+import { createS3CacheBackend } from './s3CacheBackend.js';
+
+/**
+ * Storage of cache entries. All backends have the same semantics as GitHub cache:
+ * entries are immutable, and are matched by exact key or by prefix of key or restore keys
+ */
+export type CacheBackend = {
+    description: string;
+    /**
+     * Returns key of restored entry, or undefined on cache miss
+     */
+    restoreCache(paths: string[], key: string, restoreKeys?: string[]): Promise<string | undefined>;
+    /**
+     * Returns false if entry was not saved
+     */
+    saveCache(paths: string[], key: string): Promise<boolean>;
+};
+
+function createGitHubCacheBackend(): CacheBackend {
+    return {
+        description: 'GitHub cache',
+        restoreCache: async (paths, key, restoreKeys) => {
+            return await cache.restoreCache(paths, key, restoreKeys) ?? undefined;
+        },
+        saveCache: async (paths, key) => {
+            // saveCache returns -1 instead of throwing on most errors
+            return (await cache.saveCache(paths, key)) !== -1;
+        }
+    };
+}
+
+const localEntryFileVersion = 1 as const;
+const localEntryFileExtension = '.json' as const;
+
+type LocalCacheEntry = CacheEntry & {
+    archiveFilePath: string;
+};
+
+/**
+ * File names are hashes of keys and versions since keys may be longer than allowed file name length.
+ * Keys and versions are stored in entry files next to archives
+ */
+function localEntryBaseName(key: string, version: string): string {
+    return crypto.createHash('sha256').update(`${key}\n${version}`).digest('hex');
+}
+
+async function loadLocalCacheEntries(dirPath: string): Promise<LocalCacheEntry[]> {
+    let fileNames: string[];
+    try {
+        fileNames = await fs.readdir(dirPath);
+    } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+            return [];
+        }
+        throw error;
+    }
+    const entries: LocalCacheEntry[] = [];
+    for (const fileName of fileNames.filter((fileName) => fileName.endsWith(localEntryFileExtension))) {
+        const entryFilePath = path.join(dirPath, fileName);
+        try {
+            const json = JSON.parse(await fs.readFile(entryFilePath, { encoding: 'utf-8' }));
+            if (json?.version !== localEntryFileVersion || typeof (json.key) !== 'string'
+                || typeof (json.cacheVersion) !== 'string' || typeof (json.createdAt) !== 'number') {
+                throw Error('Unsupported format');
+            }
+            const archiveFilePath = path.join(dirPath, `${localEntryBaseName(json.key, json.cacheVersion)}${cacheArchiveExtension}`);
+            entries.push({ key: json.key, version: json.cacheVersion, createdAt: json.createdAt, archiveFilePath: archiveFilePath });
+        } catch (error) {
+            core.warning(`Cache entry ${entryFilePath} is corrupted, it is ignored: ${errorAsString(error)}`);
+        }
+    }
+    return entries;
+}
+
+/**
+ * Entries are stored as archives in directory, e.g. on network share that is mounted on self-hosted runners
+ */
+function createLocalCacheBackend(dirPath: string): CacheBackend {
+    return {
+        description: `Directory ${dirPath}`,
+        restoreCache: async (paths, key, restoreKeys) => {
+            const entry = matchCacheEntry(await loadLocalCacheEntries(dirPath), cacheVersion(paths), key, restoreKeys ?? []);
+            if (entry === undefined) {
+                return undefined;
+            }
+            console.info('Extracting', entry.archiveFilePath);
+            await extractCacheArchive(entry.archiveFilePath);
+            return entry.key;
+        },
+        saveCache: async (paths, key) => {
+            const version = cacheVersion(paths);
+            if ((await loadLocalCacheEntries(dirPath)).some((entry) => entry.key === key && entry.version === version)) {
+                core.warning(`Cache entry with key ${key} already exists in ${dirPath}`);
+                return false;
+            }
+            await fs.mkdir(dirPath, { recursive: true });
+            const baseName = localEntryBaseName(key, version);
+            const archiveFilePath = path.join(dirPath, `${baseName}${cacheArchiveExtension}`);
+            const entryFilePath = path.join(dirPath, `${baseName}${localEntryFileExtension}`);
+            // Entry is written to temporary files first, so that other jobs never see incomplete entry
+            const temporarySuffix = `.${process.pid}.tmp`;
+            try {
+                if (!await createCacheArchive(paths, archiveFilePath + temporarySuffix)) {
+                    core.warning('Paths of cache entry do not exist, cache is not saved');
+                    return false;
+                }
+                await fs.rename(archiveFilePath + temporarySuffix, archiveFilePath);
+                await fs.writeFile(entryFilePath + temporarySuffix, JSON.stringify({ version: localEntryFileVersion, key: key, cacheVersion: version, createdAt: Date.now() }));
+                await fs.rename(entryFilePath + temporarySuffix, entryFilePath);
+            } finally {
+                await fs.rm(archiveFilePath + temporarySuffix, { force: true });
+                await fs.rm(entryFilePath + temporarySuffix, { force: true });
+            }
+            console.info('Saved cache entry to', archiveFilePath);
+            return true;
+        }
+    };
+}
+
+export function createCacheBackend(inputs: Inputs): CacheBackend {
+    switch (inputs.cacheBackend) {
+        case 'github':
+            return createGitHubCacheBackend();
+        case 'local':
+            return createLocalCacheBackend(inputs.cacheBackendPath);
+        case 's3':
+            return createS3CacheBackend(inputs);
+    }
+}
@@ -0,0 +1,91 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BinaryPackage, copyFileWithTimes, findBinaryPackagePaths, getEnvVariable, mapWithConcurrency, moveFile, relativePackagePath, statConcurrency } from './common.js';
+import { loadPackagesIndex, PackagesIndex, savePackagesIndex } from './packagesIndex.js';
+import { loadPackagesUsage, PackagesUsage, savePackagesUsage } from './packagesUsage.js';
+
+const partitionsDirName = 'action-setup-vcpkg-partitions' as const;
+
+/**
+ * Each partition is restored to and saved from its own directory, since cache entry is bound to its paths.
+ * The path must be the same when restoring and saving cache
+ */
+export function partitionStagingDir(triplet: string): string {
+    return path.join(getEnvVariable('RUNNER_TEMP'), partitionsDirName, triplet);
+}
+
+export async function cleanPartitionStagingDir(stagingDir: string) {
+    await fs.rm(stagingDir, { recursive: true, force: true });
+    await fs.mkdir(stagingDir, { recursive: true });
+}
+
+/**
+ * Moves packages of restored partition to binary cache directory. Returns count of packages
+ */
+export async function movePartitionToCache(cacheDir: string, stagingDir: string): Promise<number> {
+    const filePaths = await findBinaryPackagePaths(stagingDir);
+    await mapWithConcurrency(filePaths, statConcurrency, 'restored packages', async (filePath) => {
+        await moveFile(filePath, path.join(cacheDir, path.relative(stagingDir, filePath)));
+    });
+    return filePaths.length;
+}
+
+/**
+ * Merges packages index and usage of restored partitions into ones of binary cache directory
+ */
+export async function mergePartitionsMetadata(cacheDir: string, stagingDirs: string[]) {
+    const index = await loadPackagesIndex(cacheDir) ?? new Map();
+    const usage = await loadPackagesUsage(cacheDir);
+    for (const stagingDir of stagingDirs) {
+        for (const [filePath, entry] of await loadPackagesIndex(stagingDir) ?? []) {
+            index.set(filePath, entry);
+        }
+        for (const [filePath, entry] of await loadPackagesUsage(stagingDir)) {
+            usage.set(filePath, entry);
+        }
+    }
+    await savePackagesIndex(cacheDir, index);
+    await savePackagesUsage(cacheDir, usage);
+}
+
+function filterByPackages<V>(cacheDir: string, map: Map<string, V>, packages: BinaryPackage[]): Map<string, V> {
+    const filtered = new Map<string, V>();
+    for (const pkg of packages) {
+        const filePath = relativePackagePath(cacheDir, pkg.filePath);
+        const value = map.get(filePath);
+        if (value !== undefined) {
+            filtered.set(filePath, value);
+        }
+    }
+    return filtered;
+}
+
+async function linkFile(filePath: string, destinationPath: string) {
+    await fs.mkdir(path.dirname(destinationPath), { recursive: true });
+    try {
+        await fs.link(filePath, destinationPath);
+    } catch {
+        // Hard links are not supported across devices and on some file systems
+        await copyFileWithTimes(filePath, destinationPath);
+    }
+}
+
+/**
+ * Links packages of partition into its staging directory, together with their index and usage entries
+ */
+export async function stagePartition(
+    cacheDir: string,
+    stagingDir: string,
+    packages: BinaryPackage[],
+    index: PackagesIndex,
+    usage: PackagesUsage | undefined
+) {
+    await cleanPartitionStagingDir(stagingDir);
+    await mapWithConcurrency(packages, statConcurrency, 'staged packages', async (pkg) => {
+        await linkFile(pkg.filePath, path.join(stagingDir, path.relative(cacheDir, pkg.filePath)));
+    });
+    await savePackagesIndex(stagingDir, filterByPackages(cacheDir, index, packages));
+    if (usage !== undefined) {
+        await savePackagesUsage(stagingDir, filterByPackages(cacheDir, usage, packages));
+    }
+}
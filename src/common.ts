@@ -1,13 +1,36 @@
 import * as core from '@actions/core';
 import { getInput, InputOptions, setFailed } from '@actions/core';
+import { ChildProcess, spawn } from 'child_process';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { env } from 'process';
 
 export const cacheKeyState = 'cacheKey' as const;
+export const cacheRestoreKeyState = 'cacheRestoreKey' as const;
 export const binaryCachePathState = 'binaryCachePath' as const;
-export const binaryPackagesCountState = 'binaryPackagesCount' as const;
+export const packagesSnapshotPathState = 'packagesSnapshotPath' as const;
+export const restoredPackagesCountState = 'restoredPackagesCount' as const;
+export const cacheRestoreTimeState = 'cacheRestoreTime' as const;
+export const resetAccessTimeState = 'resetAccessTime' as const;
 export const mainStepSucceededState = 'mainStepSucceeded' as const;
+export const vcpkgRootState = 'vcpkgRoot' as const;
+export const vcpkgToolCacheKeyState = 'vcpkgToolCacheKey' as const;
+
+export const fetchStrategies = ['full', 'shallow', 'blobless'] as const;
+export type FetchStrategy = typeof fetchStrategies[number];
+
+export const dirtyVcpkgRootActions = ['fail', 'clean', 'force'] as const;
+export type DirtyVcpkgRootAction = typeof dirtyVcpkgRootActions[number];
+
+export const cacheKeyComponents = ['runner-os', 'runner-arch', 'tag', 'image-version', 'vcpkg-commit', 'manifest-hash', 'compiler-version'] as const;
+export type CacheKeyComponent = typeof cacheKeyComponents[number];
+const defaultCacheKeyComponents: CacheKeyComponent[] = ['runner-os', 'tag', 'image-version'];
+
+export const corruptedPackageActions = ['none', 'delete', 'quarantine'] as const;
+export type CorruptedPackageAction = typeof corruptedPackageActions[number];
+
+export const cacheBackends = ['github', 'local', 's3'] as const;
+export type CacheBackendKind = typeof cacheBackends[number];
 
 export type Inputs = {
     runSetup: boolean;
@@ -15,6 +38,29 @@ export type Inputs = {
     binaryCachePath: string;
     saveCache: boolean;
     cacheKeyTag: string;
+    manifestDirs: string[];
+    vcpkgRepository: string;
+    vcpkgCommit: string;
+    fetchStrategy: FetchStrategy;
+    cacheVcpkgTool: boolean;
+    dirtyVcpkgRoot: DirtyVcpkgRootAction;
+    forceBootstrap: boolean;
+    evictUnusedPackagesDays: number | undefined;
+    maxCacheSize: number | undefined;
+    pruneDryRun: boolean;
+    verifyRestoredPackages: CorruptedPackageAction;
+    partitionCacheByTriplet: boolean;
+    triplets: string[];
+    cacheKeyComponents: CacheKeyComponent[];
+    cacheRestoreKeys: CacheKeyComponent[][];
+    hashManifestInputs: boolean;
+    additionalBinarySources: string[];
+    cacheBackend: CacheBackendKind;
+    cacheBackendPath: string;
+    s3Endpoint: string;
+    s3Bucket: string;
+    s3Region: string;
+    s3Prefix: string;
 };
 
 function getInputVerbose(name: string, inputOptions: InputOptions): string {
@@ -23,6 +69,86 @@ function getInputVerbose(name: string, inputOptions: InputOptions): string {
     return value;
 }
 
+function parseChoiceInput<T extends string>(name: string, value: string, choices: readonly T[]): T {
+    const choice = choices.find((choice) => choice === value);
+    if (choice === undefined) {
+        throw new AbortActionError(`Inputs: ${name} has invalid value '${value}', supported values are ${choices.join(', ')}`);
+    }
+    return choice;
+}
+
+function parseDaysInput(name: string, value: string): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const match = /^(\d+)\s*(day|days)$/.exec(value);
+    const days = match ? parseInt(match[1]!!) : 0;
+    if (!match || days <= 0) {
+        throw new AbortActionError(`Inputs: ${name} has invalid value '${value}', it must be in '<N> days' format`);
+    }
+    return days;
+}
+
+const sizeUnits = new Map<string, number>([
+    ['', 1],
+    ['b', 1],
+    ['k', 1024],
+    ['kb', 1024],
+    ['kib', 1024],
+    ['m', 1024 ** 2],
+    ['mb', 1024 ** 2],
+    ['mib', 1024 ** 2],
+    ['g', 1024 ** 3],
+    ['gb', 1024 ** 3],
+    ['gib', 1024 ** 3]
+]);
+
+function parseSizeInput(name: string, value: string): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const match = /^(\d+(?:\.\d+)?)\s*([a-zA-Z]*)$/.exec(value);
+    const multiplier = match ? sizeUnits.get(match[2]!!.toLowerCase()) : undefined;
+    if (!match || multiplier === undefined) {
+        throw new AbortActionError(`Inputs: ${name} has invalid value '${value}', it must be a number of bytes optionally followed by K, M or G unit`);
+    }
+    return Math.floor(parseFloat(match[1]!!) * multiplier);
+}
+
+function parseCacheKeyComponentsList(name: string, value: string): CacheKeyComponent[] {
+    const components = value
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0)
+        .map((item) => parseChoiceInput(name, item, cacheKeyComponents));
+    if (new Set(components).size !== components.length) {
+        throw new AbortActionError(`Inputs: ${name} has duplicate components in '${value}'`);
+    }
+    return components;
+}
+
+/**
+ * Restore keys are matched as prefixes of saved keys, so each of them must consist of first components of cache key.
+ * They are ordered from the most specific to the least specific one
+ */
+function parseCacheRestoreKeys(name: string, lines: string[], keyComponents: CacheKeyComponent[]): CacheKeyComponent[][] {
+    if (lines.length === 0) {
+        return [keyComponents];
+    }
+    const restoreKeys = lines.map((line) => parseCacheKeyComponentsList(name, line));
+    let previousLength = keyComponents.length + 1;
+    for (const restoreKey of restoreKeys) {
+        if (restoreKey.some((component, i) => component !== keyComponents[i])) {
+            throw new AbortActionError(`Inputs: ${name} entry '${restoreKey.join(', ')}' is not a prefix of cache key components '${keyComponents.join(', ')}'`);
+        }
+        if (restoreKey.length >= previousLength) {
+            throw new AbortActionError(`Inputs: ${name} entries must be ordered from the most specific to the least specific one`);
+        }
+        previousLength = restoreKey.length;
+    }
+    return restoreKeys;
+}
+
 export function parseInputs(): Inputs {
     core.startGroup('Parsing action inputs');
     const runSetup = getInputVerbose('run-setup', { required: false });
@@ -30,12 +156,94 @@ export function parseInputs(): Inputs {
     const binaryCachePath = getInputVerbose('binary-cache-path', { required: false });
     const saveCache = getInputVerbose('save-cache', { required: false });
     const cacheKeyTag = getInputVerbose('cache-key-tag', { required: false });
+    const manifestDirs = getInputVerbose('manifest-dir', { required: false })
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+    const vcpkgRepository = getInputVerbose('vcpkg-repository', { required: false });
+    const vcpkgCommit = getInputVerbose('vcpkg-commit', { required: false });
+    const fetchStrategy = getInputVerbose('fetch-strategy', { required: false });
+    const cacheVcpkgTool = getInputVerbose('cache-vcpkg-tool', { required: false });
+    const dirtyVcpkgRoot = getInputVerbose('dirty-vcpkg-root', { required: false });
+    const forceBootstrap = getInputVerbose('force-bootstrap', { required: false });
+    const evictUnusedPackages = getInputVerbose('evict-unused-packages', { required: false });
+    const maxCacheSize = getInputVerbose('max-cache-size', { required: false });
+    const pruneDryRun = getInputVerbose('prune-dry-run', { required: false });
+    const verifyRestoredPackages = getInputVerbose('verify-restored-packages', { required: false });
+    const partitionCacheByTriplet = getInputVerbose('partition-cache-by-triplet', { required: false });
+    const triplets = getInputVerbose('triplets', { required: false })
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+    if (partitionCacheByTriplet === 'true' && triplets.length === 0) {
+        throw new AbortActionError('Inputs: triplets must be set when partition-cache-by-triplet is true');
+    }
+    const cacheKeyComponentsValue = getInputVerbose('cache-key-components', { required: false });
+    let keyComponents = cacheKeyComponentsValue
+        ? parseCacheKeyComponentsList('cache-key-components', cacheKeyComponentsValue.split('\n').join(','))
+        : defaultCacheKeyComponents;
+    if (keyComponents.length === 0) {
+        throw new AbortActionError('Inputs: cache-key-components must contain at least one component');
+    }
+    const hashManifestInputs = getInputVerbose('hash-manifest-inputs', { required: false });
+    if (hashManifestInputs === 'true' && !keyComponents.includes('manifest-hash')) {
+        console.info('Inputs: manifest-hash is added to cache key components since hash-manifest-inputs is true');
+        keyComponents = [...keyComponents, 'manifest-hash'];
+    }
+    const additionalBinarySources = getInputVerbose('additional-binary-sources', { required: false })
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+    const cacheRestoreKeys = getInputVerbose('cache-restore-keys', { required: false })
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+    const cacheBackend = parseChoiceInput('cache-backend', getInputVerbose('cache-backend', { required: false }) || 'github', cacheBackends);
+    const cacheBackendPath = getInputVerbose('cache-backend-path', { required: false });
+    if (cacheBackend === 'local' && !cacheBackendPath) {
+        throw new AbortActionError('Inputs: cache-backend-path must be set when cache-backend is local');
+    }
+    const s3Endpoint = getInputVerbose('s3-endpoint', { required: false });
+    const s3Bucket = getInputVerbose('s3-bucket', { required: false });
+    const s3Region = getInputVerbose('s3-region', { required: false });
+    const s3Prefix = getInputVerbose('s3-prefix', { required: false });
+    if (cacheBackend === 's3') {
+        if (!s3Endpoint || !s3Bucket) {
+            throw new AbortActionError('Inputs: s3-endpoint and s3-bucket must be set when cache-backend is s3');
+        }
+        if (!URL.canParse(s3Endpoint) || !['http:', 'https:'].includes(new URL(s3Endpoint).protocol)) {
+            throw new AbortActionError(`Inputs: s3-endpoint has invalid value '${s3Endpoint}', it must be http or https URL`);
+        }
+    }
     const inputs = {
         runSetup: runSetup === 'true',
         vcpkgRoot: vcpkgRoot,
         binaryCachePath: binaryCachePath,
         saveCache: saveCache === 'true',
-        cacheKeyTag: cacheKeyTag
+        cacheKeyTag: cacheKeyTag,
+        manifestDirs: manifestDirs.length > 0 ? manifestDirs : ['.'],
+        vcpkgRepository: vcpkgRepository,
+        vcpkgCommit: vcpkgCommit,
+        fetchStrategy: parseChoiceInput('fetch-strategy', fetchStrategy || 'full', fetchStrategies),
+        cacheVcpkgTool: cacheVcpkgTool === 'true',
+        dirtyVcpkgRoot: parseChoiceInput('dirty-vcpkg-root', dirtyVcpkgRoot || 'fail', dirtyVcpkgRootActions),
+        forceBootstrap: forceBootstrap === 'true',
+        evictUnusedPackagesDays: parseDaysInput('evict-unused-packages', evictUnusedPackages),
+        maxCacheSize: parseSizeInput('max-cache-size', maxCacheSize),
+        pruneDryRun: pruneDryRun === 'true',
+        verifyRestoredPackages: parseChoiceInput('verify-restored-packages', verifyRestoredPackages || 'none', corruptedPackageActions),
+        partitionCacheByTriplet: partitionCacheByTriplet === 'true',
+        triplets: triplets,
+        cacheKeyComponents: keyComponents,
+        cacheRestoreKeys: parseCacheRestoreKeys('cache-restore-keys', cacheRestoreKeys, keyComponents),
+        hashManifestInputs: hashManifestInputs === 'true',
+        additionalBinarySources: additionalBinarySources,
+        cacheBackend: cacheBackend,
+        cacheBackendPath: cacheBackendPath ? path.resolve(cacheBackendPath) : '',
+        s3Endpoint: s3Endpoint,
+        s3Bucket: s3Bucket,
+        s3Region: s3Region || 'us-east-1',
+        s3Prefix: s3Prefix
     };
     core.endGroup();
     return inputs;
@@ -65,17 +273,183 @@ export function setEnvVariable(name: string, value: string) {
     core.exportVariable(name, value);
 }
 
+export function setOutput(name: string, value: string | number) {
+    console.info('Setting output', name, 'to value', value);
+    core.setOutput(name, value);
+}
+
+export async function writeJobSummary() {
+    try {
+        await core.summary.write();
+    } catch (error) {
+        console.error(error);
+        core.warning(`Failed to write job summary with error ${errorAsString(error)}`);
+    }
+}
+
 export const ENV_VCPKG_INSTALLATION_ROOT = 'VCPKG_INSTALLATION_ROOT' as const;
 export const ENV_VCPKG_ROOT = 'VCPKG_ROOT' as const;
 export const ENV_VCPKG_BINARY_SOURCES = 'VCPKG_BINARY_SOURCES' as const;
 export const ENV_VCPKG_DEFAULT_BINARY_CACHE = 'VCPKG_DEFAULT_BINARY_CACHE' as const;
 
+/**
+ * Paths of vcpkg tool cache. They must be the same when restoring and saving cache.
+ * Directories created when using vcpkg in classic mode are excluded since they are not part of vcpkg tool
+ */
+export function vcpkgToolCachePaths(vcpkgRoot: string): string[] {
+    const excluded = ['buildtrees', 'downloads', 'installed', 'packages'];
+    return [vcpkgRoot, ...excluded.map((dir) => `!${path.join(vcpkgRoot, dir)}`)];
+}
+
+const cacheKeyPrefix = 'vcpkg|' as const;
+
+/**
+ * Composes cache restore key from values of its components, cache key is restore key followed by GITHUB_RUN_ID
+ */
+export function composeRestoreKey(componentValues: string[]): string {
+    return cacheKeyPrefix + componentValues.map((value) => `${value}|`).join('');
+}
+
+/**
+ * Restore key of cache partition with packages of a single triplet.
+ * Triplet directly follows key prefix, so that any restore key of partition never matches other triplets
+ */
+export function partitionRestoreKey(restoreKey: string, triplet: string): string {
+    return `${cacheKeyPrefix}triplet=${triplet}|${restoreKey.slice(cacheKeyPrefix.length)}`;
+}
+
+export function cacheKeyWithRunId(restoreKey: string): string {
+    return `${restoreKey}GITHUB_RUN_ID=${getEnvVariable('GITHUB_RUN_ID')}`;
+}
+
+export function workspaceDir(): string {
+    return env['GITHUB_WORKSPACE'] || process.cwd();
+}
+
+/**
+ * Path relative to workspace with forward slashes, so that it doesn't depend on location of checkout
+ */
+export function workspaceRelativePath(filePath: string): string {
+    return path.relative(workspaceDir(), path.resolve(filePath)).split(path.sep).join('/');
+}
+
+export async function execProcess(process: ChildProcess) {
+    const exitCode: number = await new Promise((resolve, reject) => {
+        process.on('close', resolve);
+        process.on('error', reject);
+    });
+    if (exitCode != 0) {
+        throw new Error(`Command exited with exit code ${exitCode}`);
+    }
+}
+
+export async function execCommand(command: string, args: string[], shell?: boolean) {
+    console.info('Executing command', command, 'with arguments', args);
+    try {
+        const child = spawn(command, args, { stdio: 'inherit', shell: shell ?? false });
+        await execProcess(child);
+    } catch (error) {
+        console.error(error);
+        throw new AbortActionError(`Command '${command}' failed with error '${errorAsString(error)}'`);
+    }
+}
+
+export async function tryExecCommandOutput(command: string, args: string[]): Promise<string | undefined> {
+    console.info('Executing command', command, 'with arguments', args);
+    let output = '';
+    try {
+        const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'inherit'] });
+        child.stdout.setEncoding('utf-8');
+        child.stdout.on('data', (data: string) => {
+            output += data;
+        });
+        await execProcess(child);
+    } catch (error) {
+        console.info(`Command '${command}' failed with error '${errorAsString(error)}'`);
+        return undefined;
+    }
+    return output.trim();
+}
+
+export async function execCommandOutput(command: string, args: string[]): Promise<string> {
+    const output = await tryExecCommandOutput(command, args);
+    if (output === undefined) {
+        throw new AbortActionError(`Command '${command}' failed`);
+    }
+    return output;
+}
+
+export async function pathExists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
 export type BinaryPackage = {
     filePath: string;
     size: number;
     mtime: Date;
+    atime: Date;
 };
 
+/**
+ * Returns path of package file relative to binary cache directory, with '/' separators on all platforms
+ */
+export function relativePackagePath(cacheDir: string, filePath: string): string {
+    return path.relative(cacheDir, filePath).split(path.sep).join('/');
+}
+
+/**
+ * Loads file that maps package file paths to entries, like packages index, snapshot or usage.
+ * parseEntry returns undefined for invalid entry.
+ * Returns undefined if file doesn't exist, throws if it can't be read or has unsupported format
+ */
+export async function loadPackagesFile<T>(filePath: string, version: number, parseEntry: (entry: any) => T | undefined): Promise<Map<string, T> | undefined> {
+    let data: string;
+    try {
+        data = await fs.readFile(filePath, { encoding: 'utf-8' });
+    } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+            return undefined;
+        }
+        throw error;
+    }
+    const json = JSON.parse(data);
+    if (json?.version !== version || typeof (json.packages) !== 'object' || json.packages === null) {
+        throw Error('Unsupported format');
+    }
+    const entries = new Map<string, T>();
+    for (const [packagePath, entry] of Object.entries<any>(json.packages)) {
+        const parsedEntry = parseEntry(entry);
+        if (parsedEntry === undefined) {
+            throw Error(`Invalid entry for ${packagePath}`);
+        }
+        entries.set(packagePath, parsedEntry);
+    }
+    return entries;
+}
+
+/**
+ * File is written to temporary file first and then renamed, so that other jobs sharing the directory
+ * and this job after interruption never see incomplete file
+ */
+export async function savePackagesFile<T>(filePath: string, version: number, entries: Map<string, T>, serializeEntry: (entry: T) => object) {
+    const packages: Record<string, object> = {};
+    for (const [packagePath, entry] of entries) {
+        packages[packagePath] = serializeEntry(entry);
+    }
+    const temporaryPath = `${filePath}.${process.pid}.tmp`;
+    try {
+        await fs.writeFile(temporaryPath, JSON.stringify({ version: version, packages: packages }));
+        await fs.rename(temporaryPath, filePath);
+    } finally {
+        await fs.rm(temporaryPath, { force: true });
+    }
+}
+
 const ZIP_EXTENSION = '.zip' as const;
 
 function isZipFile(fileName: string): boolean {
@@ -93,6 +467,87 @@ export async function findBinaryPackagesInDir(dirPath: string, onFoundPackage: (
     }
 }
 
+export async function findBinaryPackagePaths(dirPath: string): Promise<string[]> {
+    const filePaths: string[] = [];
+    await findBinaryPackagesInDir(dirPath, (dirPath, fileName) => {
+        filePaths.push(path.join(dirPath, fileName));
+    });
+    return filePaths;
+}
+
+/**
+ * Finds binary packages in directory together with their size and times.
+ * Directory is scanned once and packages are passed to all steps that need them, since it is slow for large caches
+ */
+export async function scanBinaryPackages(dirPath: string): Promise<BinaryPackage[]> {
+    const filePaths = await findBinaryPackagePaths(dirPath);
+    return await mapWithConcurrency(filePaths, statConcurrency, 'binary packages', async (filePath): Promise<BinaryPackage> => {
+        const stat = await fs.stat(filePath);
+        return { filePath: filePath, size: stat.size, mtime: stat.mtime, atime: stat.atime };
+    });
+}
+
+/**
+ * Limits of simultaneously running operations on binary packages,
+ * so that large binary caches don't exhaust file descriptors
+ */
+export const statConcurrency = 64 as const;
+export const archiveReadConcurrency = 16 as const;
+const progressLogIntervalMs = 10 * 1000;
+
+/**
+ * Maps items with at most `concurrency` mapper calls running at once, results are in order of items.
+ * Progress is logged periodically with `description` of processed items
+ */
+export async function mapWithConcurrency<T, R>(
+    items: readonly T[],
+    concurrency: number,
+    description: string,
+    mapper: (item: T) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+    let doneCount = 0;
+    let lastProgressLog = Date.now();
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await mapper(items[index]!!);
+            ++doneCount;
+            if (Date.now() - lastProgressLog >= progressLogIntervalMs) {
+                lastProgressLog = Date.now();
+                console.info(`Processed ${doneCount} of ${items.length} ${description}`);
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+}
+
+/**
+ * Copies file keeping its access and modification times, since they are used to identify
+ * packages that were created or used during this job and to match packages with index entries
+ */
+export async function copyFileWithTimes(filePath: string, destinationPath: string) {
+    const stats = await fs.stat(filePath);
+    await fs.copyFile(filePath, destinationPath);
+    await fs.utimes(destinationPath, stats.atime, stats.mtime);
+}
+
+export async function moveFile(filePath: string, destinationPath: string) {
+    await fs.mkdir(path.dirname(destinationPath), { recursive: true });
+    try {
+        await fs.rename(filePath, destinationPath);
+    } catch (error: any) {
+        if (error?.code !== 'EXDEV') {
+            throw error;
+        }
+        // Runner temporary directory may be on another device than binary cache
+        await copyFileWithTimes(filePath, destinationPath);
+        await fs.rm(filePath);
+    }
+}
+
 export class AbortActionError extends Error {
     constructor(message: string) {
         super(message);
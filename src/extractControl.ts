@@ -1,27 +1,74 @@
-import * as readline from 'readline';
-
 import * as yauzl from 'yauzl';
 import { BinaryPackage } from './common.js';
 
 const controlFileName = 'CONTROL' as const;
 const packageNameKey = 'Package' as const;
 const architectureKey = 'Architecture' as const;
+const versionKey = 'Version' as const;
+const portVersionKey = 'Port-Version' as const;
+const featureKey = 'Feature' as const;
+const dependsKey = 'Depends' as const;
+const defaultFeaturesKey = 'Default-Features' as const;
+const abiKey = 'Abi' as const;
+const descriptionKey = 'Description' as const;
 const keyValueSeparator = ':' as const;
+const listSeparator = ',' as const;
 
 enum PackageNameBrand { _ = '' };
 export type PackageName = string & PackageNameBrand;
 enum ArchitectureBrand { _ = '' };
 export type Architecture = string & ArchitectureBrand;
 
+export type BinaryPackageFeature = {
+    name: string;
+    depends: string[];
+    description: string[];
+};
+
 export type BinaryPackageControl = {
-    packageName: PackageName,
+    packageName: PackageName;
     architecture: Architecture;
+    version: string | undefined;
+    portVersion: number;
+    abi: string | undefined;
+    description: string[];
+    depends: string[];
+    defaultFeatures: string[];
+    features: BinaryPackageFeature[];
 };
 
+/**
+ * Paragraph of CONTROL file, maps field names to values.
+ * Values of multiline fields have lines joined with '\n'
+ */
+export type ControlParagraph = Map<string, string>;
+
 export async function extractBinaryPackageControl(pkg: BinaryPackage): Promise<BinaryPackageControl> {
     const zipfile = await yauzl.openPromise(pkg.filePath, { autoClose: false, lazyEntries: true });
     try {
-        return await parseControl(zipfile, await findControlEntry(zipfile));
+        return parseControl(await readEntry(zipfile, await findControlEntry(zipfile)));
+    } finally {
+        zipfile.close();
+    }
+}
+
+/**
+ * Reads all entries of central directory and CONTROL entry of archive,
+ * throws if archive is truncated or corrupted
+ */
+export async function verifyBinaryPackageArchive(filePath: string): Promise<BinaryPackageControl> {
+    const zipfile = await yauzl.openPromise(filePath, { autoClose: false, lazyEntries: true });
+    try {
+        let controlEntry: yauzl.Entry | undefined;
+        for await (const entry of zipfile.eachEntry()) {
+            if (entry.fileName == controlFileName) {
+                controlEntry = entry;
+            }
+        }
+        if (controlEntry === undefined) {
+            throw new Error(`Zip file doesn't contain ${controlFileName} entry`);
+        }
+        return parseControl(await readEntry(zipfile, controlEntry));
     } finally {
         zipfile.close();
     }
@@ -36,36 +83,120 @@ async function findControlEntry(zipfile: yauzl.ZipFile): Promise<yauzl.Entry> {
     throw new Error(`Reached end of zip file before finding ${controlFileName} entry`);
 }
 
-async function parseControl(zipfile: yauzl.ZipFile, entry: yauzl.Entry): Promise<BinaryPackageControl> {
-    let packageName: PackageName | undefined;
-    let architecture: Architecture | undefined;
+async function readEntry(zipfile: yauzl.ZipFile, entry: yauzl.Entry): Promise<string> {
+    const stream = await zipfile.openReadStreamPromise(entry);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+}
 
-    await using controlEntryStream = await zipfile.openReadStreamPromise(entry);
-    using lines = readline.createInterface({ input: controlEntryStream, crlfDelay: Infinity });
-    for await (const line of lines) {
-        const separatorIndex = line.indexOf(keyValueSeparator);
-        if (separatorIndex != -1) {
-            const key = line.slice(0, separatorIndex).trim();
-            const lazyValue = () => {
-                return line.slice(separatorIndex + 1).trim();
-            };
-            if (key == packageNameKey) {
-                packageName = lazyValue() as PackageName;
-            } else if (key == architectureKey) {
-                architecture = lazyValue() as Architecture;
-            }
-            if (packageName !== undefined && architecture !== undefined) {
-                return { packageName, architecture };
+/**
+ * Splits CONTROL file into paragraphs separated by empty lines.
+ * Lines starting with whitespace continue value of previous field, lines starting with '#' are comments
+ */
+export function parseControlParagraphs(text: string): ControlParagraph[] {
+    const paragraphs: ControlParagraph[] = [];
+    let paragraph: ControlParagraph | undefined;
+    let lastKey: string | undefined;
+    for (const line of text.split(/\r?\n/)) {
+        if (line.trim().length === 0) {
+            paragraph = undefined;
+            lastKey = undefined;
+            continue;
+        }
+        if (line.startsWith('#')) {
+            continue;
+        }
+        if (line.startsWith(' ') || line.startsWith('\t')) {
+            if (paragraph === undefined || lastKey === undefined) {
+                throw new Error(`${controlFileName} file has continuation line without field: '${line}'`);
             }
+            const previousValue = paragraph.get(lastKey);
+            paragraph.set(lastKey, previousValue ? `${previousValue}\n${line.trim()}` : line.trim());
+            continue;
         }
+        const separatorIndex = line.indexOf(keyValueSeparator);
+        if (separatorIndex == -1) {
+            throw new Error(`${controlFileName} file has line without field name: '${line}'`);
+        }
+        if (paragraph === undefined) {
+            paragraph = new Map();
+            paragraphs.push(paragraph);
+        }
+        lastKey = line.slice(0, separatorIndex).trim();
+        paragraph.set(lastKey, line.slice(separatorIndex + 1).trim());
+    }
+    return paragraphs;
+}
+
+function parseList(value: string | undefined): string[] {
+    if (value === undefined) {
+        return [];
     }
+    return value.split(listSeparator).map((item) => item.trim()).filter((item) => item.length > 0);
+}
 
-    const notFound = [];
-    if (packageName === undefined) {
-        notFound.push(packageNameKey);
+function parseLines(value: string | undefined): string[] {
+    if (value === undefined || value.length === 0) {
+        return [];
     }
-    if (architecture === undefined) {
-        notFound.push(architectureKey);
+    return value.split('\n');
+}
+
+export function parseControl(text: string): BinaryPackageControl {
+    const paragraphs = parseControlParagraphs(text);
+    const coreParagraph = paragraphs.find((paragraph) => !paragraph.has(featureKey));
+    if (coreParagraph === undefined) {
+        throw new Error(`${controlFileName} file of archive doesn't contain core paragraph`);
     }
-    throw new Error(`${controlFileName} file of archive doesn't contain required keys: ${notFound}`);
+
+    const packageName = coreParagraph.get(packageNameKey) as PackageName | undefined;
+    const architecture = coreParagraph.get(architectureKey) as Architecture | undefined;
+    if (packageName === undefined || architecture === undefined) {
+        const notFound = [];
+        if (packageName === undefined) {
+            notFound.push(packageNameKey);
+        }
+        if (architecture === undefined) {
+            notFound.push(architectureKey);
+        }
+        throw new Error(`${controlFileName} file of archive doesn't contain required keys: ${notFound}`);
+    }
+
+    const portVersionValue = coreParagraph.get(portVersionKey);
+    const portVersion = portVersionValue !== undefined ? parseInt(portVersionValue) : 0;
+    if (isNaN(portVersion)) {
+        throw new Error(`${controlFileName} file of archive has invalid ${portVersionKey} '${portVersionValue}'`);
+    }
+
+    const features: BinaryPackageFeature[] = [];
+    for (const paragraph of paragraphs) {
+        const featureName = paragraph.get(featureKey);
+        if (featureName === undefined) {
+            continue;
+        }
+        const featurePackageName = paragraph.get(packageNameKey);
+        if (featurePackageName !== packageName) {
+            throw new Error(`${controlFileName} file of archive has feature paragraph '${featureName}' for package '${featurePackageName}', expected '${packageName}'`);
+        }
+        features.push({
+            name: featureName,
+            depends: parseList(paragraph.get(dependsKey)),
+            description: parseLines(paragraph.get(descriptionKey))
+        });
+    }
+
+    return {
+        packageName: packageName,
+        architecture: architecture,
+        version: coreParagraph.get(versionKey),
+        portVersion: portVersion,
+        abi: coreParagraph.get(abiKey),
+        description: parseLines(coreParagraph.get(descriptionKey)),
+        depends: parseList(coreParagraph.get(dependsKey)),
+        defaultFeatures: parseList(coreParagraph.get(defaultFeaturesKey)),
+        features: features
+    };
 }
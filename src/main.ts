@@ -1,48 +1,270 @@
-import * as cache from '@actions/cache';
 import * as core from '@actions/core';
-import { ChildProcess, spawn } from 'child_process';
+import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
 import { Ajv } from 'ajv';
 import formatsPlugin from 'ajv-formats';
-import { AbortActionError, ENV_VCPKG_BINARY_SOURCES, ENV_VCPKG_DEFAULT_BINARY_CACHE, ENV_VCPKG_INSTALLATION_ROOT, ENV_VCPKG_ROOT, Inputs, binaryCachePathState, binaryPackagesCountState, cacheKeyState, errorAsString, findBinaryPackagesInDir, getEnvVariable, mainStepSucceededState, parseInputs, runMain, setEnvVariable } from './common.js';
+import { AbortActionError, CacheKeyComponent, ENV_VCPKG_BINARY_SOURCES, ENV_VCPKG_DEFAULT_BINARY_CACHE, ENV_VCPKG_INSTALLATION_ROOT, ENV_VCPKG_ROOT, FetchStrategy, Inputs, binaryCachePathState, cacheKeyState, cacheKeyWithRunId, cacheRestoreKeyState, cacheRestoreTimeState, composeRestoreKey, BinaryPackage, errorAsString, execCommand, execCommandOutput, getEnvVariable, mainStepSucceededState, parseInputs, partitionRestoreKey, pathExists, resetAccessTimeState, restoredPackagesCountState, runMain, scanBinaryPackages, setEnvVariable, setOutput, tryExecCommandOutput, vcpkgRootState, vcpkgToolCacheKeyState, vcpkgToolCachePaths, workspaceRelativePath, writeJobSummary } from './common.js';
+import { composeBinarySources, parseAdditionalBinarySources } from './binarySources.js';
+import { CacheBackend, createCacheBackend } from './cacheBackend.js';
+import { cleanPartitionStagingDir, mergePartitionsMetadata, movePartitionToCache, partitionStagingDir } from './cachePartitions.js';
+import { validatePackagesIndex } from './packagesIndex.js';
+import { savePackagesSnapshot } from './packagesSnapshot.js';
+import { prepareUsageTracking } from './packagesUsage.js';
 import { VCPKG_CONFIGURATION_JSON_SCHEMA, VCPKG_JSON_SCHEMA, VCPKG_SCHEMA_DEFINITIONS } from './schemas.js';
+import { verifyBinaryPackages } from './verifyPackages.js';
 
 
 const DEFAULT_VCPKG_URL = 'https://github.com/microsoft/vcpkg.git';
 
-async function execProcess(process: ChildProcess) {
-    const exitCode: number = await new Promise((resolve, reject) => {
-        process.on('close', resolve);
-        process.on('error', reject);
-    });
-    if (exitCode != 0) {
-        throw new Error(`Command exited with exit code ${exitCode}`);
+type PartitionRestoreResult = {
+    triplet: string;
+    key: string;
+    hitKey: string | undefined;
+    packagesCount: number;
+};
+
+async function restoreCachePartitions(cacheBackend: CacheBackend, cacheDir: string, restoreKey: string, restoreKeys: string[], triplets: string[]): Promise<PartitionRestoreResult[]> {
+    const results: PartitionRestoreResult[] = [];
+    const restoredDirs: string[] = [];
+    for (const triplet of triplets) {
+        const key = cacheKeyWithRunId(partitionRestoreKey(restoreKey, triplet));
+        const stagingDir = partitionStagingDir(triplet);
+        console.info(`Restoring cache partition of triplet ${triplet} with key ${key} to ${stagingDir}`);
+        await cleanPartitionStagingDir(stagingDir);
+        const hitKey = await cacheBackend.restoreCache([stagingDir], key, restoreKeys.map((restoreKey) => partitionRestoreKey(restoreKey, triplet)));
+        let packagesCount = 0;
+        if (hitKey !== undefined) {
+            packagesCount = await movePartitionToCache(cacheDir, stagingDir);
+            restoredDirs.push(stagingDir);
+            console.info(`Cache hit on key ${hitKey}, restored ${packagesCount} packages of triplet ${triplet}`);
+        } else {
+            console.info(`Cache miss for triplet ${triplet}`);
+        }
+        results.push({ triplet: triplet, key: key, hitKey: hitKey, packagesCount: packagesCount });
     }
+    if (restoredDirs.length > 0) {
+        await mergePartitionsMetadata(cacheDir, restoredDirs);
+    }
+    return results;
 }
 
-async function execCommand(command: string, args: string[], shell?: boolean) {
-    console.info('Executing command', command, 'with arguments', args);
+async function hashFile(hash: crypto.Hash, filePath: string, name: string): Promise<boolean> {
+    hash.update(`${name}\0`);
     try {
-        const child = spawn(command, args, { stdio: 'inherit', shell: shell ?? false });
-        await execProcess(child);
-    } catch (error) {
-        console.error(error);
-        throw new AbortActionError(`Command '${command}' failed with error '${errorAsString(error)}'`);
+        hash.update(await fs.readFile(filePath));
+        return true;
+    } catch (error: any) {
+        if (error?.code !== 'ENOENT') {
+            throw new AbortActionError(`Failed to read ${filePath} with error ${errorAsString(error)}`);
+        }
+        return false;
+    } finally {
+        hash.update('\0');
+    }
+}
+
+/**
+ * Files are hashed in sorted order with paths relative to directory, so that hash doesn't depend
+ * on location of checkout or order of directory entries
+ */
+async function hashDirectory(hash: crypto.Hash, dirPath: string, name: string): Promise<number> {
+    let filesCount = 0;
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    entries.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+    for (const entry of entries) {
+        const entryPath = path.join(dirPath, entry.name);
+        if (entry.isDirectory()) {
+            filesCount += await hashDirectory(hash, entryPath, `${name}/${entry.name}`);
+        } else if (entry.isFile()) {
+            await hashFile(hash, entryPath, `${name}/${entry.name}`);
+            ++filesCount;
+        }
+    }
+    return filesCount;
+}
+
+async function hashOverlays(hash: crypto.Hash, manifest: VcpkgManifest, field: 'overlay-ports' | 'overlay-triplets') {
+    const overlays: string[] = manifest.configuration?.[field] ?? [];
+    for (const overlay of overlays) {
+        const overlayPath = resolveConfigurationPath(manifest, overlay);
+        try {
+            const filesCount = await hashDirectory(hash, overlayPath, `${field}:${workspaceRelativePath(overlayPath)}`);
+            console.info(`Hashing ${filesCount} files of ${field} directory ${overlayPath}`);
+        } catch (error) {
+            if (error instanceof AbortActionError) {
+                throw error;
+            }
+            throw new AbortActionError(`Failed to hash ${field} directory ${overlayPath} from ${manifest.configurationSource} with error ${errorAsString(error)}`);
+        }
+    }
+}
+
+/**
+ * Hash of manifests, configurations and overlays referenced by configurations,
+ * so that cache entries of different sets of dependencies are separated
+ */
+async function hashManifests(manifestDirs: string[]): Promise<string> {
+    const ajv = createManifestValidator();
+    const hash = crypto.createHash('sha256');
+    for (const manifestDir of manifestDirs) {
+        for (const fileName of [VCPKG_JSON, VCPKG_CONFIGURATION_JSON]) {
+            const filePath = path.join(manifestDir, fileName);
+            if (await hashFile(hash, filePath, workspaceRelativePath(filePath))) {
+                console.info('Hashing', filePath);
+            }
+        }
+        let manifest: VcpkgManifest;
+        try {
+            manifest = await loadVcpkgManifest(manifestDir, ajv);
+        } catch (error) {
+            console.error(error);
+            throw new AbortActionError(`Failed to load vcpkg manifest for hashing with error '${errorAsString(error)}'`);
+        }
+        await hashOverlays(hash, manifest, 'overlay-ports');
+        await hashOverlays(hash, manifest, 'overlay-triplets');
+    }
+    const digest = hash.digest('hex');
+    console.info('Manifest hash is', digest);
+    return digest;
+}
+
+async function detectVisualStudioVersion(): Promise<string | undefined> {
+    // cl.exe is not in PATH until developer environment is set up, use version of Visual Studio instead
+    // Variable may be missing, e.g. in Windows containers
+    const programFiles = getEnvVariable('ProgramFiles(x86)', false);
+    if (programFiles === undefined) {
+        return undefined;
+    }
+    const vswhere = path.join(programFiles, 'Microsoft Visual Studio', 'Installer', 'vswhere.exe');
+    const vsVersion = await tryExecCommandOutput(vswhere, ['-latest', '-products', '*', '-requires', 'Microsoft.VisualStudio.Component.VC.Tools.x86.x64', '-property', 'installationVersion']);
+    return vsVersion ? `MSVC ${vsVersion}` : undefined;
+}
+
+async function tryDetectCompilerVersion(compiler: string): Promise<string | undefined> {
+    return (await tryExecCommandOutput(compiler, ['--version']))?.split('\n')[0]?.trim() || undefined;
+}
+
+async function detectCompilerVersion(): Promise<string> {
+    let version: string | undefined;
+    if (os.platform() === 'win32') {
+        version = await detectVisualStudioVersion();
+    } else {
+        version = await tryDetectCompilerVersion(getEnvVariable('CXX', false) || 'c++');
+    }
+    if (!version) {
+        throw new AbortActionError('Failed to detect compiler version for cache key');
+    }
+    console.info('Compiler version is', version);
+    return version;
+}
+
+type RunnerImage = {
+    environment: string;
+    /**
+     * ImageVersion of GitHub-hosted runner image, or fingerprint of runner image and toolchain when it is not set
+     */
+    keyValue: string;
+    description: string;
+};
+
+async function detectRunnerEnvironment(): Promise<string> {
+    const parts = [getEnvVariable('RUNNER_ENVIRONMENT', false) || 'unknown runner environment'];
+    if (getEnvVariable('container', false) || await pathExists('/.dockerenv') || await pathExists('/run/.containerenv')) {
+        parts.push('container');
+    }
+    return parts.join(', ');
+}
+
+async function readOsRelease(): Promise<string | undefined> {
+    for (const filePath of ['/etc/os-release', '/usr/lib/os-release']) {
+        try {
+            const fields = new Map<string, string>();
+            for (const line of (await fs.readFile(filePath, { encoding: 'utf-8' })).split('\n')) {
+                const match = /^(\w+)=(.*)$/.exec(line.trim());
+                if (match) {
+                    fields.set(match[1]!!, match[2]!!.replace(/^["']|["']$/g, ''));
+                }
+            }
+            return `${fields.get('ID') ?? 'unknown'} ${fields.get('VERSION_ID') ?? 'unknown'}`;
+        } catch {
+            continue;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Lists properties of runner image that affect binary packages. Kernel version and host name are excluded
+ * since they differ between machines with the same image
+ */
+async function imageFingerprintDetails(): Promise<string[]> {
+    const details = [`platform=${os.platform()} ${os.arch()}`];
+    switch (os.platform()) {
+        case 'linux': {
+            details.push(`os-release=${await readOsRelease() ?? 'not found'}`);
+            const glibcVersion: string | undefined = (process.report.getReport() as { header?: { glibcVersionRuntime?: string } }).header?.glibcVersionRuntime;
+            details.push(`glibc=${glibcVersion ?? 'not found'}`);
+            break;
+        }
+        case 'darwin':
+            details.push(`macos=${await tryExecCommandOutput('sw_vers', ['-productVersion']) ?? 'unknown'}`);
+            break;
+        case 'win32':
+            details.push(`windows=${os.release()}`);
+            details.push(`visual-studio=${await detectVisualStudioVersion() ?? 'not found'}`);
+            break;
+    }
+    for (const compiler of ['cc', 'c++', 'gcc', 'g++', 'clang', 'clang++']) {
+        details.push(`${compiler}=${await tryDetectCompilerVersion(compiler) ?? 'not found'}`);
+    }
+    return details;
+}
+
+async function detectRunnerImage(): Promise<RunnerImage> {
+    const environment = await detectRunnerEnvironment();
+    console.info('Runner environment is', environment);
+    const imageVersion = getEnvVariable('ImageVersion', false);
+    if (imageVersion) {
+        return { environment: environment, keyValue: `ImageVersion=${imageVersion}`, description: `ImageVersion ${imageVersion}` };
     }
+    console.info('ImageVersion environment variable is not set, using fingerprint of runner image and toolchain instead');
+    const details = await imageFingerprintDetails();
+    const fingerprint = crypto.createHash('sha256').update(details.join('\n')).digest('hex').slice(0, 16);
+    console.info('Runner image fingerprint is', fingerprint, 'computed from:');
+    for (const detail of details) {
+        console.info(` - ${detail}`);
+    }
+    return { environment: environment, keyValue: `ImageFingerprint=${fingerprint}`, description: `Fingerprint ${fingerprint}<br>${details.join('<br>')}` };
 }
 
-async function countBinaryPackages(binaryCachePath: string): Promise<number> {
-    core.startGroup('Counting packages in binary cache');
-    let count = 0;
-    await findBinaryPackagesInDir(binaryCachePath, (_dirPath, _fileName) => {
-        ++count;
-    });
-    return count;
+async function cacheKeyComponentValue(component: CacheKeyComponent, inputs: Inputs, repositoryInfo: VcpkgRepositoryInfo | undefined, runnerImage: RunnerImage | undefined): Promise<string> {
+    switch (component) {
+        case 'runner-os':
+            return `RUNNER_OS=${getEnvVariable('RUNNER_OS')}`;
+        case 'runner-arch':
+            return `RUNNER_ARCH=${getEnvVariable('RUNNER_ARCH')}`;
+        case 'tag':
+            return inputs.cacheKeyTag ? `tag=${inputs.cacheKeyTag}` : 'tag is not set';
+        case 'image-version':
+            if (runnerImage === undefined) {
+                throw new AbortActionError('Runner image is not detected');
+            }
+            return runnerImage.keyValue;
+        case 'vcpkg-commit':
+            if (repositoryInfo === undefined) {
+                throw new AbortActionError('Vcpkg commit is not resolved');
+            }
+            return `vcpkg-commit=${repositoryInfo.commit}`;
+        case 'manifest-hash':
+            return `manifest-hash=${await hashManifests(inputs.manifestDirs)}`;
+        case 'compiler-version':
+            return `compiler=${await detectCompilerVersion()}`;
+    }
 }
 
-async function restoreCache(inputs: Inputs) {
+async function restoreCache(inputs: Inputs, cacheBackend: CacheBackend, repositoryInfo: VcpkgRepositoryInfo | undefined) {
     core.startGroup('Restore cache');
 
     let cacheDir: string | undefined = inputs.binaryCachePath;
@@ -59,7 +281,10 @@ async function restoreCache(inputs: Inputs) {
     }
     cacheDir = path.resolve(cacheDir);
     console.info('Vcpkg binary cache path is', cacheDir);
-    setEnvVariable(ENV_VCPKG_BINARY_SOURCES, `clear;files,${cacheDir},${inputs.saveCache ? 'readwrite' : 'read'}`);
+    setOutput('binary-cache-path', cacheDir);
+    const additionalBinarySources = parseAdditionalBinarySources('additional-binary-sources', inputs.additionalBinarySources);
+    const existingBinarySources = getEnvVariable(ENV_VCPKG_BINARY_SOURCES, false);
+    setEnvVariable(ENV_VCPKG_BINARY_SOURCES, composeBinarySources(cacheDir, inputs.saveCache, existingBinarySources, additionalBinarySources));
     core.saveState(binaryCachePathState, cacheDir);
     try {
         await fs.mkdir(cacheDir, { recursive: true });
@@ -73,35 +298,101 @@ async function restoreCache(inputs: Inputs) {
      * last part of key is GITHUB_RUN_ID so that exact matches never occur and cache is upload
      * only if vcpkg actually created new binary packages
      */
-    let restoreKey = `vcpkg|RUNNER_OS=${getEnvVariable('RUNNER_OS')}|`;
-    if (inputs.cacheKeyTag) {
-        restoreKey += `tag=${inputs.cacheKeyTag}|`;
-    } else {
-        restoreKey += `tag is not set|`;
+    console.info('Cache key components are', inputs.cacheKeyComponents.join(', '));
+    const runnerImage = inputs.cacheKeyComponents.includes('image-version') ? await detectRunnerImage() : undefined;
+    const componentValues = new Map<CacheKeyComponent, string>();
+    for (const component of inputs.cacheKeyComponents) {
+        componentValues.set(component, await cacheKeyComponentValue(component, inputs, repositoryInfo, runnerImage));
     }
-    const imageVersion = getEnvVariable('ImageVersion');
-    restoreKey += `ImageVersion=${imageVersion}|`;
-
-    console.info('Cache restore key is', restoreKey);
-    const runId = getEnvVariable('GITHUB_RUN_ID');
-    const key = `${restoreKey}GITHUB_RUN_ID=${runId}`;
+    const restoreKey = composeRestoreKey([...componentValues.values()]);
+    const restoreKeys = inputs.cacheRestoreKeys.map((components) => composeRestoreKey(components.map((component) => componentValues.get(component)!!)));
+    console.info('Cache restore keys are', restoreKeys);
+    const key = cacheKeyWithRunId(restoreKey);
     core.saveState(cacheKeyState, key);
+    core.saveState(cacheRestoreKeyState, restoreKey);
     console.info('Cache key is', key);
+    console.info('Cache backend is', cacheBackend.description);
+    // Restored files keep their original mtime, so packages with later mtime are created during this job
+    core.saveState(cacheRestoreTimeState, Date.now().toString());
+    let cacheHit: 'exact' | 'partial' | 'miss' = 'miss';
+    let matchedKey = '';
+    let binaryPackagesCount = 0;
+    let corruptedPackagesCount = 0;
+    let partitions: PartitionRestoreResult[] | undefined;
     try {
-        const hitKey = await cache.restoreCache([cacheDir], key, [restoreKey]);
-        if (hitKey != null) {
-            console.info('Cache hit on key', hitKey);
-            const binaryPackagesCount = (await countBinaryPackages(cacheDir));
-            core.saveState(binaryPackagesCountState, binaryPackagesCount.toString());
-            console.info('Binary packages count is', binaryPackagesCount);
+        if (inputs.partitionCacheByTriplet) {
+            partitions = await restoreCachePartitions(cacheBackend, cacheDir, restoreKey, restoreKeys, inputs.triplets);
+            const hitKeys = partitions.map((partition) => partition.hitKey).filter((hitKey) => hitKey !== undefined);
+            if (hitKeys.length > 0) {
+                cacheHit = partitions.every((partition) => partition.hitKey === partition.key) ? 'exact' : 'partial';
+                matchedKey = hitKeys.join('\n');
+            }
         } else {
+            const hitKey = await cacheBackend.restoreCache([cacheDir], key, restoreKeys);
+            if (hitKey !== undefined) {
+                console.info('Cache hit on key', hitKey);
+                cacheHit = hitKey === key ? 'exact' : 'partial';
+                matchedKey = hitKey;
+            }
+        }
+        if (cacheHit === 'miss') {
             console.info('Cache miss');
-            core.saveState(binaryPackagesCountState, '0');
         }
     } catch (error) {
         console.error(error);
         core.error(`Failed to restore cache with error ${errorAsString(error)}`);
     }
+    // Binary cache directory is scanned once, and packages are passed to all following steps.
+    // It may already contain packages on cache miss, e.g. on self-hosted runners
+    let packages: BinaryPackage[] | undefined;
+    try {
+        packages = await scanBinaryPackages(cacheDir);
+        if (cacheHit !== 'miss') {
+            if (inputs.verifyRestoredPackages !== 'none') {
+                const corruptedPackages = new Set(await verifyBinaryPackages(cacheDir, packages, inputs.verifyRestoredPackages));
+                corruptedPackagesCount = corruptedPackages.size;
+                packages = packages.filter((pkg) => !corruptedPackages.has(pkg));
+            }
+            await validatePackagesIndex(cacheDir, packages);
+            binaryPackagesCount = packages.length;
+            console.info('Binary packages count is', binaryPackagesCount);
+        }
+    } catch (error) {
+        console.error(error);
+        core.error(`Failed to check restored binary packages with error ${errorAsString(error)}`);
+    }
+    core.saveState(restoredPackagesCountState, binaryPackagesCount.toString());
+    if (packages !== undefined) {
+        await savePackagesSnapshot(cacheDir, packages);
+        const storedResetAccessTime = await prepareUsageTracking(cacheDir, packages);
+        if (storedResetAccessTime !== undefined) {
+            core.saveState(resetAccessTimeState, storedResetAccessTime.getTime().toString());
+        }
+    }
+    const rows: [string, string][] = [
+        ['Cache backend', cacheBackend.description],
+        ['Cache key', key],
+        ['Restore keys', restoreKeys.join('<br>')],
+        ['Restored from key', matchedKey || 'Cache miss'],
+        ['Packages restored', binaryPackagesCount.toString()],
+        ['Corrupted packages', inputs.verifyRestoredPackages !== 'none' ? corruptedPackagesCount.toString() : 'Not verified']
+    ];
+    if (runnerImage !== undefined) {
+        rows.push(['Runner environment', runnerImage.environment]);
+        rows.push(['Runner image', runnerImage.description]);
+    }
+    core.summary.addHeading('Vcpkg binary cache restoring', 3).addTable(rows.map(([name, value]) => [{ data: name, header: true }, value]));
+    if (partitions !== undefined) {
+        core.summary.addTable([
+            [{ data: 'Triplet', header: true }, { data: 'Restored from key', header: true }, { data: 'Packages restored', header: true }],
+            ...partitions.map((partition) => [partition.triplet, partition.hitKey ?? 'Cache miss', partition.packagesCount.toString()])
+        ]);
+    }
+    setOutput('cache-key', partitions !== undefined ? partitions.map((partition) => partition.key).join('\n') : key);
+    setOutput('cache-hit', cacheHit);
+    setOutput('cache-matched-key', matchedKey);
+    setOutput('restored-packages-count', binaryPackagesCount);
+    setOutput('corrupted-packages-count', corruptedPackagesCount);
 
     core.endGroup();
 }
@@ -123,6 +414,7 @@ function resolveVcpkgRoot(inputs: Inputs): string {
     vcpkgRoot = path.resolve(vcpkgRoot);
     console.info('Vcpkg root directory path is', vcpkgRoot);
     setEnvVariable(ENV_VCPKG_ROOT, vcpkgRoot);
+    setOutput('vcpkg-root', vcpkgRoot);
     core.endGroup();
     return vcpkgRoot;
 }
@@ -132,89 +424,444 @@ type VcpkgRepositoryInfo = {
     commit: string;
 };
 
-async function extractVcpkgRepositoryInfo(): Promise<VcpkgRepositoryInfo> {
+const VCPKG_JSON = 'vcpkg.json' as const;
+const VCPKG_CONFIGURATION_JSON = 'vcpkg-configuration.json' as const;
+
+/**
+ * Commit is undefined when manifest doesn't select vcpkg commit and it is set in action inputs
+ */
+type ManifestRepositoryInfo = {
+    url: string;
+    commit: string | undefined;
+};
+
+type VcpkgManifest = {
+    dirPath: string;
+    vcpkgJson: any | undefined;
+    configuration: any | undefined;
+    configurationSource: string | undefined;
+};
+
+async function readJsonFile(filePath: string, schema: object, ajv: Ajv): Promise<any | undefined> {
+    let data: string;
     try {
-        let url: string | undefined;
-        let commit: string | undefined;
-        const ajv = new Ajv();
-        formatsPlugin.default(ajv);
-        ajv.addSchema(VCPKG_SCHEMA_DEFINITIONS);
-        try {
-            const vcpkgConfigurationJsonData = await fs.readFile('vcpkg-configuration.json', { encoding: 'utf-8' });
-            const vcpkgConfigurationJson = JSON.parse(vcpkgConfigurationJsonData);
-            const vcpkgConfigurationJsonValidator = ajv.compile<any>(VCPKG_CONFIGURATION_JSON_SCHEMA);
-            if (!vcpkgConfigurationJsonValidator(vcpkgConfigurationJson)) {
-                console.error('Failed to validate vcpkg-configuration.json:', vcpkgConfigurationJsonValidator.errors);
-                throw Error('Failed to validate vcpkg-configuration.json');
-            }
-            const defaultRegistry = vcpkgConfigurationJson['default-registry'];
-            if (typeof (defaultRegistry) === 'undefined') {
-                throw Error('vcpkg-configuration.json does not contain "default-registry" field');
-            }
-            const kind = defaultRegistry['kind'];
-            switch (kind) {
-                case 'builtin':
-                    url = DEFAULT_VCPKG_URL;
-                    break;
-                case 'git':
-                    url = defaultRegistry['repository'];
-                    break;
-                default:
-                    throw Error(`Registry kind '${kind}' is not supported`);
-            }
-            commit = defaultRegistry['baseline'];
-        } catch (error: any) {
-            if (error?.code === 'ENOENT') {
-                const vcpkgJsonData = await fs.readFile('vcpkg.json', { encoding: 'utf-8' });
-                const vcpkgJson = JSON.parse(vcpkgJsonData);
-                const vcpkgJsonValidator = ajv.compile<any>(VCPKG_JSON_SCHEMA);
-                if (!vcpkgJsonValidator(vcpkgJson)) {
-                    console.error('Failed to validate vcpkg.json:', vcpkgJsonValidator.errors);
-                    throw Error('Failed to validate vcpkg.json');
-                }
-                commit = vcpkgJson['builtin-baseline'];
-                if (typeof (commit) === 'undefined') {
-                    throw Error('vcpkg.json does not contain "builtin-baseline" field');
-                }
-                url = DEFAULT_VCPKG_URL;
-            } else {
-                throw error;
-            }
+        data = await fs.readFile(filePath, { encoding: 'utf-8' });
+    } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+            console.info(`${filePath} does not exist`);
+            return undefined;
         }
-        if (typeof (url) !== 'string') {
-            throw Error('Repository URL is unknown');
+        throw error;
+    }
+    const json = JSON.parse(data);
+    const validator = ajv.compile<any>(schema);
+    if (!validator(json)) {
+        console.error(`Failed to validate ${filePath}:`, validator.errors);
+        throw Error(`Failed to validate ${filePath}`);
+    }
+    return json;
+}
+
+function createManifestValidator(): Ajv {
+    const ajv = new Ajv();
+    formatsPlugin.default(ajv);
+    ajv.addSchema(VCPKG_SCHEMA_DEFINITIONS);
+    // vcpkg.json schema references vcpkg-configuration.json schema for embedded configuration
+    ajv.addSchema(VCPKG_CONFIGURATION_JSON_SCHEMA);
+    return ajv;
+}
+
+async function loadVcpkgManifest(dirPath: string, ajv: Ajv): Promise<VcpkgManifest> {
+    const vcpkgJsonPath = path.join(dirPath, VCPKG_JSON);
+    const vcpkgConfigurationJsonPath = path.join(dirPath, VCPKG_CONFIGURATION_JSON);
+    const vcpkgJson = await readJsonFile(vcpkgJsonPath, VCPKG_JSON_SCHEMA, ajv);
+    const vcpkgConfigurationJson = await readJsonFile(vcpkgConfigurationJsonPath, VCPKG_CONFIGURATION_JSON_SCHEMA, ajv);
+    const embeddedConfiguration = vcpkgJson?.['vcpkg-configuration'];
+
+    // Same as vcpkg tool, refuse to choose between two configurations
+    if (vcpkgConfigurationJson !== undefined && embeddedConfiguration !== undefined) {
+        throw Error(`Both ${vcpkgConfigurationJsonPath} file and "vcpkg-configuration" field in ${vcpkgJsonPath} are present, remove one of them`);
+    }
+    if (vcpkgConfigurationJson !== undefined) {
+        return { dirPath: dirPath, vcpkgJson: vcpkgJson, configuration: vcpkgConfigurationJson, configurationSource: vcpkgConfigurationJsonPath };
+    }
+    if (embeddedConfiguration !== undefined) {
+        return { dirPath: dirPath, vcpkgJson: vcpkgJson, configuration: embeddedConfiguration, configurationSource: `"vcpkg-configuration" field in ${vcpkgJsonPath}` };
+    }
+    if (vcpkgJson === undefined) {
+        throw Error(`Neither ${vcpkgJsonPath} nor ${vcpkgConfigurationJsonPath} exist`);
+    }
+    return { dirPath: dirPath, vcpkgJson: vcpkgJson, configuration: undefined, configurationSource: undefined };
+}
+
+function resolveConfigurationPath(manifest: VcpkgManifest, configurationPath: string): string {
+    // Relative paths are resolved relative to the directory of configuration, same as vcpkg does
+    return path.resolve(manifest.dirPath, configurationPath);
+}
+
+/**
+ * Follows vcpkg tool precedence rules: "default-registry" from configuration
+ * takes priority over "builtin-baseline" from vcpkg.json.
+ * Filesystem registries don't reference vcpkg repository at all, so for them
+ * vcpkg commit is taken from "builtin-baseline". Artifact registries can't be default registries
+ * and don't affect which vcpkg commit is used.
+ */
+async function resolveVcpkgRepositoryInfo(manifest: VcpkgManifest, commitRequired: boolean): Promise<ManifestRepositoryInfo> {
+    const vcpkgJsonPath = path.join(manifest.dirPath, VCPKG_JSON);
+    const defaultRegistry = manifest.configuration?.['default-registry'];
+    const builtinBaseline = manifest.vcpkgJson?.['builtin-baseline'];
+    if (defaultRegistry !== undefined) {
+        console.info(`Using "default-registry" from ${manifest.configurationSource}`);
+        let url: string;
+        const kind = defaultRegistry['kind'];
+        switch (kind) {
+            case 'builtin':
+                url = DEFAULT_VCPKG_URL;
+                break;
+            case 'git':
+                url = defaultRegistry['repository'];
+                break;
+            case 'filesystem':
+                await checkFilesystemRegistry(manifest, defaultRegistry['path']);
+                if (builtinBaseline === undefined) {
+                    if (!commitRequired) {
+                        console.info('Default registry is a filesystem registry, using default vcpkg repository URL');
+                        return { url: DEFAULT_VCPKG_URL, commit: undefined };
+                    }
+                    throw Error(`Default registry in ${manifest.configurationSource} is a filesystem registry, add "builtin-baseline" field to ${vcpkgJsonPath} or set vcpkg-commit input to select vcpkg commit`);
+                }
+                console.info(`Default registry is a filesystem registry, using "builtin-baseline" from ${vcpkgJsonPath}`);
+                return { url: DEFAULT_VCPKG_URL, commit: builtinBaseline };
+            default:
+                throw Error(`Registry kind '${kind}' is not supported`);
         }
-        if (typeof (commit) !== 'string') {
-            throw Error('Repository commit is unknown');
+        const commit = defaultRegistry['baseline'];
+        if (builtinBaseline !== undefined && (kind !== 'builtin' || builtinBaseline !== commit)) {
+            core.warning(`"builtin-baseline" in ${vcpkgJsonPath} is ignored because "default-registry" from ${manifest.configurationSource} overrides it`);
         }
         return { url: url, commit: commit };
+    }
+    if (manifest.configuration !== undefined) {
+        console.info(`${manifest.configurationSource} does not contain "default-registry" field`);
+    }
+    if (builtinBaseline === undefined) {
+        if (!commitRequired) {
+            console.info(`${vcpkgJsonPath} does not contain "builtin-baseline" field, using default vcpkg repository URL`);
+            return { url: DEFAULT_VCPKG_URL, commit: undefined };
+        }
+        throw Error(`${vcpkgJsonPath} does not contain "builtin-baseline" field and there is no "default-registry" in vcpkg configuration`);
+    }
+    console.info(`Using "builtin-baseline" from ${vcpkgJsonPath}`);
+    return { url: DEFAULT_VCPKG_URL, commit: builtinBaseline };
+}
+
+async function checkFilesystemRegistry(manifest: VcpkgManifest, registryPath: string) {
+    const resolvedPath = resolveConfigurationPath(manifest, registryPath);
+    console.info('Filesystem registry path is', resolvedPath);
+    try {
+        const stats = await fs.stat(resolvedPath);
+        if (!stats.isDirectory()) {
+            core.warning(`Filesystem registry path ${resolvedPath} is not a directory`);
+        }
+    } catch (error) {
+        core.warning(`Filesystem registry path ${resolvedPath} is not accessible: ${errorAsString(error)}`);
+    }
+}
+
+/**
+ * When commit is not required, only repository URLs of manifests are resolved and compared
+ */
+async function extractVcpkgRepositoryInfo(manifestDirs: string[], commitRequired: boolean): Promise<ManifestRepositoryInfo> {
+    try {
+        const ajv = createManifestValidator();
+        const infos = new Map<string, ManifestRepositoryInfo>();
+        for (const manifestDir of manifestDirs) {
+            console.info('Looking for vcpkg manifest in', manifestDir);
+            const { url, commit } = await resolveVcpkgRepositoryInfo(await loadVcpkgManifest(manifestDir, ajv), commitRequired);
+            if (typeof (url) !== 'string') {
+                throw Error(`Repository URL is unknown for manifest in ${manifestDir}`);
+            }
+            if (commitRequired && typeof (commit) !== 'string') {
+                throw Error(`Repository commit is unknown for manifest in ${manifestDir}`);
+            }
+            const resolvedCommit = commitRequired ? commit : undefined;
+            console.info('Vcpkg repository URL for manifest in', manifestDir, 'is', url, ...(resolvedCommit !== undefined ? ['and commit is', resolvedCommit] : []));
+            infos.set(manifestDir, { url: url, commit: resolvedCommit });
+        }
+        const distinct = new Set([...infos.values()].map((info) => `${info.url}@${info.commit}`));
+        if (distinct.size > 1) {
+            const details = [...infos].map(([dir, info]) => `${dir}: ${info.url}${info.commit !== undefined ? ` at ${info.commit}` : ''}`).join(', ');
+            throw Error(`Manifest directories point to different vcpkg repositories or commits (${details})`);
+        }
+        return [...infos.values()][0]!!;
     } catch (error) {
         console.error(error);
         throw new AbortActionError(`Failed to extract vcpkg repository info with error '${errorAsString(error)}'`);
     }
 }
 
-async function setupVcpkg(vcpkgRoot: string): Promise<string> {
-    core.startGroup('Set up vcpkg');
-    const repositoryInfo = await extractVcpkgRepositoryInfo();
-    let checkoutExistingDirectory: boolean;
+const COMMIT_REGEX = /^([0-9a-fA-F]{40}|[0-9a-fA-F]{64})$/;
+const SCP_LIKE_URL_REGEX = /^[\w.-]+@[\w.-]+:.+$/;
+const SUPPORTED_URL_PROTOCOLS = ['https:', 'http:', 'ssh:', 'git:', 'file:'];
+
+function validateRepositoryUrl(url: string, source: string) {
+    // Check for local path first so that Windows drive letters are not mistaken for URL protocols
+    if (path.isAbsolute(url) || SCP_LIKE_URL_REGEX.test(url)) {
+        return;
+    }
+    if (URL.canParse(url)) {
+        const protocol = new URL(url).protocol;
+        if (!SUPPORTED_URL_PROTOCOLS.includes(protocol)) {
+            throw new AbortActionError(`Vcpkg repository URL '${url}' from ${source} has unsupported protocol '${protocol}'`);
+        }
+        return;
+    }
+    throw new AbortActionError(`Vcpkg repository URL '${url}' from ${source} is not a valid git URL or absolute path`);
+}
+
+function validateCommit(commit: string, source: string) {
+    if (!COMMIT_REGEX.test(commit)) {
+        throw new AbortActionError(`Vcpkg commit '${commit}' from ${source} is not a full commit hash`);
+    }
+}
+
+async function resolveVcpkgRepository(inputs: Inputs): Promise<VcpkgRepositoryInfo> {
+    let manifestInfo: ManifestRepositoryInfo | undefined;
+    if (!inputs.vcpkgCommit) {
+        manifestInfo = await extractVcpkgRepositoryInfo(inputs.manifestDirs, true);
+    } else if (!inputs.vcpkgRepository) {
+        console.info('Vcpkg commit is set in action inputs, reading vcpkg manifests only to determine repository URL');
+        try {
+            manifestInfo = await extractVcpkgRepositoryInfo(inputs.manifestDirs, false);
+        } catch (error) {
+            core.warning(`Failed to determine vcpkg repository URL from vcpkg manifests, using ${DEFAULT_VCPKG_URL}. Set vcpkg-repository input to skip reading vcpkg manifests. Error: ${errorAsString(error)}`);
+            manifestInfo = { url: DEFAULT_VCPKG_URL, commit: undefined };
+        }
+    } else {
+        console.info('Both vcpkg repository URL and commit are set in action inputs, skip reading vcpkg manifests');
+    }
+
+    let url: string;
+    let urlSource: string;
+    if (inputs.vcpkgRepository) {
+        console.info('Using vcpkg repository URL from action inputs');
+        url = inputs.vcpkgRepository;
+        urlSource = 'action inputs';
+    } else {
+        console.info('Using vcpkg repository URL from vcpkg manifest');
+        url = manifestInfo!!.url;
+        urlSource = 'vcpkg manifest';
+    }
+    validateRepositoryUrl(url, urlSource);
+
+    let commit: string;
+    let commitSource: string;
+    if (inputs.vcpkgCommit) {
+        console.info('Using vcpkg commit from action inputs');
+        commit = inputs.vcpkgCommit;
+        commitSource = 'action inputs';
+    } else {
+        console.info('Using vcpkg commit from vcpkg manifest');
+        commit = manifestInfo!!.commit!!;
+        commitSource = 'vcpkg manifest';
+    }
+    validateCommit(commit, commitSource);
+
+    console.info('Vcpkg repository URL is', url, 'and commit is', commit);
+    return { url: url, commit: commit };
+}
+
+const EXISTING_DIRECTORY_REMOTE_NAME = 'action-setup-vcpkg' as const;
+const NEW_DIRECTORY_REMOTE_NAME = 'origin' as const;
+
+function fetchStrategyArguments(fetchStrategy: FetchStrategy): string[] {
+    switch (fetchStrategy) {
+        case 'full':
+            return [];
+        case 'shallow':
+            return ['--depth', '1'];
+        case 'blobless':
+            return ['--filter=blob:none'];
+    }
+}
+
+async function fetchCommit(vcpkgRoot: string, remoteName: string, commit: string, fetchStrategy: FetchStrategy) {
+    if (fetchStrategy === 'full') {
+        await execCommand('git', ['-C', vcpkgRoot, 'fetch', remoteName]);
+        return;
+    }
     try {
-        const stats = await fs.stat(vcpkgRoot);
-        checkoutExistingDirectory = stats.isDirectory();
+        await execCommand('git', ['-C', vcpkgRoot, 'fetch', ...fetchStrategyArguments(fetchStrategy), remoteName, commit]);
     } catch (error) {
-        checkoutExistingDirectory = false;
+        // Server may not allow fetching commits that are not tips of branches or tags
+        core.warning(`Failed to fetch commit ${commit} using ${fetchStrategy} fetch strategy, falling back to full fetch`);
+        await execCommand('git', ['-C', vcpkgRoot, 'fetch', remoteName]);
     }
+}
 
-    if (checkoutExistingDirectory) {
-        const remoteName = 'action-setup-vcpkg';
-        await execCommand('git', ['-C', vcpkgRoot, 'remote', 'add', remoteName, repositoryInfo.url]);
-        await execCommand('git', ['-C', vcpkgRoot, 'fetch', remoteName]);
-        await execCommand('git', ['-C', vcpkgRoot, 'checkout', repositoryInfo.commit]);
+/**
+ * Fetch strategy is a part of key since it determines how much history of vcpkg repository is present,
+ * and restored vcpkg root is not fetched again
+ */
+function createVcpkgToolCacheKey(repositoryInfo: VcpkgRepositoryInfo, fetchStrategy: FetchStrategy): string {
+    return `vcpkg-tool|RUNNER_OS=${getEnvVariable('RUNNER_OS')}|RUNNER_ARCH=${getEnvVariable('RUNNER_ARCH')}|url=${repositoryInfo.url}|commit=${repositoryInfo.commit}|fetch-strategy=${fetchStrategy}`;
+}
+
+async function restoreVcpkgToolCache(cacheBackend: CacheBackend, vcpkgRoot: string, key: string): Promise<boolean> {
+    console.info('Vcpkg tool cache key is', key);
+    try {
+        const hitKey = await cacheBackend.restoreCache(vcpkgToolCachePaths(vcpkgRoot), key);
+        if (hitKey !== undefined) {
+            console.info('Vcpkg tool cache hit, skip fetching and bootstrapping vcpkg');
+            return true;
+        }
+        console.info('Vcpkg tool cache miss');
+    } catch (error) {
+        console.error(error);
+        core.error(`Failed to restore vcpkg tool cache with error ${errorAsString(error)}`);
+    }
+    return false;
+}
+
+type VcpkgRootKind = 'missing' | 'empty' | 'repository';
+
+async function isGitRepositoryRoot(vcpkgRoot: string): Promise<boolean> {
+    // Vcpkg root directory may be inside of another repository (e.g. in workspace),
+    // so check that it is a top level directory of repository
+    const topLevel = await tryExecCommandOutput('git', ['-C', vcpkgRoot, 'rev-parse', '--show-toplevel']);
+    if (!topLevel) {
+        return false;
+    }
+    return (await fs.realpath(topLevel)) === (await fs.realpath(vcpkgRoot));
+}
+
+async function inspectVcpkgRoot(vcpkgRoot: string): Promise<VcpkgRootKind> {
+    let entries: string[];
+    try {
+        entries = await fs.readdir(vcpkgRoot);
+    } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+            console.info('Vcpkg root directory does not exist');
+            return 'missing';
+        }
+        console.error(error);
+        throw new AbortActionError(`Failed to read vcpkg root directory with error '${errorAsString(error)}'`);
+    }
+    if (entries.length === 0) {
+        console.info('Vcpkg root directory is empty');
+        return 'empty';
+    }
+    if (await isGitRepositoryRoot(vcpkgRoot)) {
+        console.info('Vcpkg root directory is a git repository');
+        return 'repository';
+    }
+    throw new AbortActionError(`Vcpkg root directory ${vcpkgRoot} is not empty and is not a git repository`);
+}
+
+async function setRemote(vcpkgRoot: string, url: string) {
+    const remotes = (await execCommandOutput('git', ['-C', vcpkgRoot, 'remote'])).split('\n').map((line) => line.trim());
+    if (remotes.includes(EXISTING_DIRECTORY_REMOTE_NAME)) {
+        const currentUrl = await execCommandOutput('git', ['-C', vcpkgRoot, 'remote', 'get-url', EXISTING_DIRECTORY_REMOTE_NAME]);
+        if (currentUrl === url) {
+            console.info(`Remote ${EXISTING_DIRECTORY_REMOTE_NAME} already exists and has URL ${url}`);
+        } else {
+            console.info(`Remote ${EXISTING_DIRECTORY_REMOTE_NAME} already exists and has URL ${currentUrl}, changing it to ${url}`);
+            await execCommand('git', ['-C', vcpkgRoot, 'remote', 'set-url', EXISTING_DIRECTORY_REMOTE_NAME, url]);
+        }
     } else {
-        await execCommand('git', ['clone', '--no-checkout', repositoryInfo.url, vcpkgRoot]);
-        await execCommand('git', ['-C', vcpkgRoot, 'checkout', repositoryInfo.commit]);
+        console.info(`Adding remote ${EXISTING_DIRECTORY_REMOTE_NAME} with URL ${url}`);
+        await execCommand('git', ['-C', vcpkgRoot, 'remote', 'add', EXISTING_DIRECTORY_REMOTE_NAME, url]);
+    }
+}
+
+async function checkoutExistingRepository(vcpkgRoot: string, repositoryInfo: VcpkgRepositoryInfo, inputs: Inputs) {
+    const modifiedFiles = await execCommandOutput('git', ['-C', vcpkgRoot, 'status', '--porcelain', '--untracked-files=no']);
+    let forceCheckout = false;
+    if (modifiedFiles) {
+        switch (inputs.dirtyVcpkgRoot) {
+            case 'fail':
+                throw new AbortActionError(`Vcpkg root directory ${vcpkgRoot} has local modifications:\n${modifiedFiles}\nSet dirty-vcpkg-root input to 'clean' or 'force' to discard them`);
+            case 'clean':
+                console.info('Vcpkg root directory has local modifications, discarding them and removing untracked files');
+                await execCommand('git', ['-C', vcpkgRoot, 'reset', '--hard']);
+                await execCommand('git', ['-C', vcpkgRoot, 'clean', '-ffd']);
+                break;
+            case 'force':
+                console.info('Vcpkg root directory has local modifications, they will be overwritten by checkout');
+                forceCheckout = true;
+                break;
+        }
+    } else {
+        console.info('Vcpkg root directory does not have local modifications');
+    }
+
+    const head = await tryExecCommandOutput('git', ['-C', vcpkgRoot, 'rev-parse', '--verify', 'HEAD']);
+    console.info('Vcpkg root directory is at commit', head);
+    if (head?.toLowerCase() === repositoryInfo.commit.toLowerCase() && !forceCheckout) {
+        console.info('Vcpkg root directory is already at required commit, skip checkout');
+        return;
+    }
+
+    const hasCommit = (await tryExecCommandOutput('git', ['-C', vcpkgRoot, 'cat-file', '-e', `${repositoryInfo.commit}^{commit}`])) !== undefined;
+    if (hasCommit) {
+        console.info('Commit is already present in repository, skip fetching');
+    } else {
+        await setRemote(vcpkgRoot, repositoryInfo.url);
+        await fetchCommit(vcpkgRoot, EXISTING_DIRECTORY_REMOTE_NAME, repositoryInfo.commit, inputs.fetchStrategy);
+    }
+    await execCommand('git', ['-C', vcpkgRoot, 'checkout', ...(forceCheckout ? ['--force'] : []), repositoryInfo.commit]);
+}
+
+function vcpkgExecutablePath(vcpkgRoot: string): string {
+    return path.join(vcpkgRoot, os.platform() == 'win32' ? 'vcpkg.exe' : 'vcpkg');
+}
+
+async function readVcpkgToolReleaseTag(vcpkgRoot: string): Promise<string | undefined> {
+    const metadataPath = path.join(vcpkgRoot, 'scripts', 'vcpkg-tool-metadata.txt');
+    try {
+        const metadata = await fs.readFile(metadataPath, { encoding: 'utf-8' });
+        return /^VCPKG_TOOL_RELEASE_TAG=(.+)$/m.exec(metadata)?.[1]?.trim();
+    } catch (error) {
+        console.info(`Failed to read ${metadataPath} with error '${errorAsString(error)}'`);
+        return undefined;
     }
+}
 
+async function isBootstrapNeeded(vcpkgRoot: string, inputs: Inputs): Promise<boolean> {
+    if (inputs.forceBootstrap) {
+        console.info('Bootstrap is forced by action inputs');
+        return true;
+    }
+    const executable = vcpkgExecutablePath(vcpkgRoot);
+    try {
+        await fs.access(executable);
+    } catch (error) {
+        console.info(`Vcpkg executable ${executable} does not exist, bootstrap is needed`);
+        return true;
+    }
+    const releaseTag = await readVcpkgToolReleaseTag(vcpkgRoot);
+    if (!releaseTag) {
+        console.info('Vcpkg tool version pinned by vcpkg commit is unknown, bootstrap is needed');
+        return true;
+    }
+    console.info('Vcpkg tool version pinned by vcpkg commit is', releaseTag);
+    // Output looks like 'vcpkg package management program version 2024-11-12-eb492805e92a2c14a230f5c3deb3e89f6771c321'
+    const output = await tryExecCommandOutput(executable, ['version']);
+    const version = output !== undefined ? /version\s+(\S+)/.exec(output)?.[1] : undefined;
+    if (version === undefined) {
+        console.info('Failed to determine version of existing vcpkg executable, bootstrap is needed');
+        return true;
+    }
+    console.info('Version of existing vcpkg executable is', version);
+    if (version === releaseTag || version.startsWith(`${releaseTag}-`)) {
+        console.info('Existing vcpkg executable matches pinned version, skip bootstrap');
+        return false;
+    }
+    console.info('Existing vcpkg executable does not match pinned version, bootstrap is needed');
+    return true;
+}
+
+async function bootstrapVcpkg(vcpkgRoot: string) {
     let bootstrapScript: string;
     let shell: boolean;
     if (os.platform() == 'win32') {
@@ -225,6 +872,50 @@ async function setupVcpkg(vcpkgRoot: string): Promise<string> {
         shell = false;
     }
     await execCommand(path.join(vcpkgRoot, bootstrapScript), ['-disableMetrics'], shell);
+}
+
+async function setupVcpkg(vcpkgRoot: string, repositoryInfo: VcpkgRepositoryInfo, inputs: Inputs, cacheBackend: CacheBackend): Promise<string> {
+    core.startGroup('Set up vcpkg');
+    setOutput('vcpkg-repository', repositoryInfo.url);
+    setOutput('vcpkg-commit', repositoryInfo.commit);
+    setOutput('vcpkg-executable', vcpkgExecutablePath(vcpkgRoot));
+    const vcpkgRootKind = await inspectVcpkgRoot(vcpkgRoot);
+
+    let vcpkgToolCacheKey: string | undefined;
+    if (inputs.cacheVcpkgTool) {
+        if (vcpkgRootKind === 'repository') {
+            console.info('Vcpkg root directory already exists, not using vcpkg tool cache');
+        } else {
+            vcpkgToolCacheKey = createVcpkgToolCacheKey(repositoryInfo, inputs.fetchStrategy);
+            if (await restoreVcpkgToolCache(cacheBackend, vcpkgRoot, vcpkgToolCacheKey)) {
+                core.endGroup();
+                return vcpkgRoot;
+            }
+        }
+    }
+
+    console.info('Fetch strategy is', inputs.fetchStrategy);
+    if (vcpkgRootKind === 'repository') {
+        await checkoutExistingRepository(vcpkgRoot, repositoryInfo, inputs);
+    } else if (inputs.fetchStrategy === 'full') {
+        await execCommand('git', ['clone', '--no-checkout', repositoryInfo.url, vcpkgRoot]);
+        await execCommand('git', ['-C', vcpkgRoot, 'checkout', repositoryInfo.commit]);
+    } else {
+        await execCommand('git', ['init', vcpkgRoot]);
+        await execCommand('git', ['-C', vcpkgRoot, 'remote', 'add', NEW_DIRECTORY_REMOTE_NAME, repositoryInfo.url]);
+        await fetchCommit(vcpkgRoot, NEW_DIRECTORY_REMOTE_NAME, repositoryInfo.commit, inputs.fetchStrategy);
+        await execCommand('git', ['-C', vcpkgRoot, 'checkout', repositoryInfo.commit]);
+    }
+
+    if (await isBootstrapNeeded(vcpkgRoot, inputs)) {
+        await bootstrapVcpkg(vcpkgRoot);
+    }
+
+    if (vcpkgToolCacheKey !== undefined) {
+        // Vcpkg tool was rebuilt, save it in post step
+        core.saveState(vcpkgRootState, vcpkgRoot);
+        core.saveState(vcpkgToolCacheKeyState, vcpkgToolCacheKey);
+    }
 
     core.endGroup();
 
@@ -233,14 +924,23 @@ async function setupVcpkg(vcpkgRoot: string): Promise<string> {
 
 async function main() {
     const inputs = parseInputs();
-    await restoreCache(inputs);
+    const cacheBackend = createCacheBackend(inputs);
+    // Vcpkg commit is resolved before restoring cache, since it may be a part of cache key
+    let repositoryInfo: VcpkgRepositoryInfo | undefined;
+    if (inputs.runSetup || inputs.cacheKeyComponents.includes('vcpkg-commit')) {
+        core.startGroup('Determining vcpkg repository and commit');
+        repositoryInfo = await resolveVcpkgRepository(inputs);
+        core.endGroup();
+    }
+    await restoreCache(inputs, cacheBackend, repositoryInfo);
     if (inputs.runSetup) {
         const vcpkgRoot = resolveVcpkgRoot(inputs);
         if (inputs.runSetup) {
-            await setupVcpkg(vcpkgRoot);
+            await setupVcpkg(vcpkgRoot, repositoryInfo!!, inputs, cacheBackend);
         }
     }
     core.saveState(mainStepSucceededState, 'true');
+    await writeJobSummary();
 }
 
 await runMain(main);
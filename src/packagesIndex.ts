@@ -0,0 +1,126 @@
+import * as core from '@actions/core';
+import * as path from 'path';
+import { BinaryPackage, errorAsString, loadPackagesFile, relativePackagePath, savePackagesFile } from './common.js';
+import { Architecture, BinaryPackageControl, PackageName } from './extractControl.js';
+
+const indexFileName = '.action-setup-vcpkg-index.json' as const;
+const indexFileVersion = 1 as const;
+
+/**
+ * Metadata of binary package needed to decide which packages are kept in binary cache
+ */
+export type PackageMetadata = {
+    packageName: PackageName;
+    architecture: Architecture;
+    abi: string | undefined;
+    features: string[];
+};
+
+type PackageIndexEntry = {
+    size: number;
+    mtimeMs: number;
+    metadata: PackageMetadata;
+};
+
+/**
+ * Maps package file path relative to binary cache directory to its metadata,
+ * together with size and mtime of the file that metadata was read from
+ */
+export type PackagesIndex = Map<string, PackageIndexEntry>;
+
+export function packageMetadata(control: BinaryPackageControl): PackageMetadata {
+    return {
+        packageName: control.packageName,
+        architecture: control.architecture,
+        abi: control.abi,
+        features: control.features.map((feature) => feature.name)
+    };
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof (item) === 'string');
+}
+
+function parseIndexEntry(entry: any): PackageIndexEntry | undefined {
+    const { size, mtimeMs, packageName, architecture, abi, features } = entry ?? {};
+    if (typeof (size) !== 'number' || typeof (mtimeMs) !== 'number' || typeof (packageName) !== 'string'
+        || typeof (architecture) !== 'string' || (abi !== undefined && typeof (abi) !== 'string') || !isStringArray(features)) {
+        return undefined;
+    }
+    return {
+        size: size,
+        mtimeMs: mtimeMs,
+        metadata: { packageName: packageName as PackageName, architecture: architecture as Architecture, abi: abi, features: features }
+    };
+}
+
+/**
+ * Returns undefined if there is no index file in binary cache directory.
+ * Corrupted index is ignored, so that it is rebuilt from package files
+ */
+export async function loadPackagesIndex(cacheDir: string): Promise<PackagesIndex | undefined> {
+    const indexFilePath = path.join(cacheDir, indexFileName);
+    try {
+        return await loadPackagesFile(indexFilePath, indexFileVersion, parseIndexEntry);
+    } catch (error) {
+        core.warning(`Failed to read ${indexFilePath}, it will be rebuilt: ${errorAsString(error)}`);
+        return new Map();
+    }
+}
+
+export async function savePackagesIndex(cacheDir: string, index: PackagesIndex) {
+    const indexFilePath = path.join(cacheDir, indexFileName);
+    try {
+        await savePackagesFile(indexFilePath, indexFileVersion, index, ({ size, mtimeMs, metadata }) => ({ size: size, mtimeMs: mtimeMs, ...metadata }));
+    } catch (error) {
+        console.error(error);
+        core.warning(`Failed to write ${indexFilePath} with error ${errorAsString(error)}`);
+    }
+}
+
+/**
+ * Returns indexed metadata of package, or undefined if package is not indexed or its file was changed
+ */
+export function getIndexedMetadata(cacheDir: string, index: PackagesIndex, pkg: BinaryPackage): PackageMetadata | undefined {
+    const entry = index.get(relativePackagePath(cacheDir, pkg.filePath));
+    if (entry === undefined || entry.size !== pkg.size || entry.mtimeMs !== pkg.mtime.getTime()) {
+        return undefined;
+    }
+    return entry.metadata;
+}
+
+export function setIndexedMetadata(cacheDir: string, index: PackagesIndex, pkg: BinaryPackage, metadata: PackageMetadata) {
+    index.set(relativePackagePath(cacheDir, pkg.filePath), { size: pkg.size, mtimeMs: pkg.mtime.getTime(), metadata: metadata });
+}
+
+export function deleteIndexedMetadata(cacheDir: string, index: PackagesIndex, pkg: BinaryPackage) {
+    index.delete(relativePackagePath(cacheDir, pkg.filePath));
+}
+
+/**
+ * Removes entries of packages that don't exist in binary cache directory or don't match its files,
+ * e.g. when cache was modified by other tools or restored incompletely
+ */
+export async function validatePackagesIndex(cacheDir: string, packages: BinaryPackage[]) {
+    const index = await loadPackagesIndex(cacheDir);
+    if (index === undefined) {
+        console.info('There is no packages index in binary cache, it will be created when saving cache');
+        return;
+    }
+    const entriesCount = index.size;
+    const validIndex: PackagesIndex = new Map();
+    for (const pkg of packages) {
+        const metadata = getIndexedMetadata(cacheDir, index, pkg);
+        if (metadata !== undefined) {
+            setIndexedMetadata(cacheDir, validIndex, pkg, metadata);
+        }
+    }
+    const staleCount = entriesCount - validIndex.size;
+    console.info(`Packages index has ${validIndex.size} valid entries and ${staleCount} stale entries`);
+    if (staleCount > 0) {
+        await savePackagesIndex(cacheDir, validIndex);
+    } else if (entriesCount === 0) {
+        // Index was corrupted or empty, replace it so that it is not reported again
+        await savePackagesIndex(cacheDir, index);
+    }
+}
@@ -0,0 +1,91 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BinaryPackage, errorAsString, getEnvVariable, loadPackagesFile, packagesSnapshotPathState, relativePackagePath, savePackagesFile } from './common.js';
+
+const snapshotFileName = 'packages-snapshot.json' as const;
+const snapshotFileVersion = 1 as const;
+
+type SnapshotEntry = {
+    size: number;
+    mtimeMs: number;
+};
+
+/**
+ * Maps package file path relative to binary cache directory to size and mtime of its file
+ */
+export type PackagesSnapshot = Map<string, SnapshotEntry>;
+
+export type PackagesDiff = {
+    added: string[];
+    removed: string[];
+    changed: string[];
+};
+
+function parseSnapshotEntry(entry: any): SnapshotEntry | undefined {
+    if (typeof (entry?.size) !== 'number' || typeof (entry?.mtimeMs) !== 'number') {
+        return undefined;
+    }
+    return { size: entry.size, mtimeMs: entry.mtimeMs };
+}
+
+/**
+ * Saves snapshot of binary packages after cache is restored to runner temporary directory,
+ * since it may be too large for action state. Returns count of packages
+ */
+export async function savePackagesSnapshot(cacheDir: string, packages: BinaryPackage[]): Promise<number | undefined> {
+    try {
+        const entries = packages.map((pkg) => [relativePackagePath(cacheDir, pkg.filePath), { size: pkg.size, mtimeMs: pkg.mtime.getTime() }] as const);
+        const snapshotDir = await fs.mkdtemp(path.join(getEnvVariable('RUNNER_TEMP'), 'action-setup-vcpkg-'));
+        const snapshotPath = path.join(snapshotDir, snapshotFileName);
+        await savePackagesFile(snapshotPath, snapshotFileVersion, new Map(entries), (entry) => entry);
+        core.saveState(packagesSnapshotPathState, snapshotPath);
+        console.info('Saved snapshot of', entries.length, 'binary packages to', snapshotPath);
+        return entries.length;
+    } catch (error) {
+        console.error(error);
+        core.warning(`Failed to save snapshot of binary packages with error ${errorAsString(error)}`);
+        return undefined;
+    }
+}
+
+/**
+ * Returns undefined if snapshot was not saved or can't be read
+ */
+export async function loadPackagesSnapshot(): Promise<PackagesSnapshot | undefined> {
+    const snapshotPath = core.getState(packagesSnapshotPathState);
+    if (!snapshotPath) {
+        return undefined;
+    }
+    try {
+        const snapshot = await loadPackagesFile(snapshotPath, snapshotFileVersion, parseSnapshotEntry);
+        if (snapshot === undefined) {
+            throw Error('File does not exist');
+        }
+        return snapshot;
+    } catch (error) {
+        core.warning(`Failed to read snapshot of binary packages ${snapshotPath} with error ${errorAsString(error)}`);
+        return undefined;
+    }
+}
+
+export function diffPackages(cacheDir: string, snapshot: PackagesSnapshot, packages: BinaryPackage[]): PackagesDiff {
+    const diff: PackagesDiff = { added: [], removed: [], changed: [] };
+    const currentPaths = new Set<string>();
+    for (const pkg of packages) {
+        const filePath = relativePackagePath(cacheDir, pkg.filePath);
+        currentPaths.add(filePath);
+        const entry = snapshot.get(filePath);
+        if (entry === undefined) {
+            diff.added.push(filePath);
+        } else if (entry.size !== pkg.size || entry.mtimeMs !== pkg.mtime.getTime()) {
+            diff.changed.push(filePath);
+        }
+    }
+    for (const filePath of snapshot.keys()) {
+        if (!currentPaths.has(filePath)) {
+            diff.removed.push(filePath);
+        }
+    }
+    return diff;
+}
@@ -0,0 +1,148 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BinaryPackage, errorAsString, loadPackagesFile, mapWithConcurrency, relativePackagePath, savePackagesFile, statConcurrency } from './common.js';
+
+const usageFileName = '.action-setup-vcpkg-usage.json' as const;
+const usageFileVersion = 1 as const;
+const probeFileName = '.action-setup-vcpkg-atime-probe' as const;
+/**
+ * Access time is reset to the earliest possible time, so that it is updated when file is read
+ * even with relatime. File system may store it differently (e.g. FAT can't store times before 1980),
+ * so access time that is read back after reset is used to check whether file was read
+ */
+const resetAccessTime = new Date(0);
+const millisecondsInDay = 24 * 60 * 60 * 1000;
+
+/**
+ * Usage is updated only when cache is saved, since cache entry can't be changed otherwise.
+ * Packages that are read only in jobs that don't save cache keep their previous lastUsed time
+ */
+export type PackageUsage = {
+    lastUsed: Date;
+};
+
+/**
+ * Maps package file path relative to binary cache directory to its usage
+ */
+export type PackagesUsage = Map<string, PackageUsage>;
+
+async function resetFileAccessTime(filePath: string, mtime: Date) {
+    await fs.utimes(filePath, resetAccessTime, mtime);
+}
+
+/**
+ * Checks whether file system updates access time when file is read
+ * (it doesn't when mounted with noatime, or on Windows when last access updates are disabled).
+ * Returns access time of file after reset as it is stored by file system, or undefined if it is not updated
+ */
+async function probeResetAccessTime(cacheDir: string): Promise<Date | undefined> {
+    const probePath = path.join(cacheDir, probeFileName);
+    try {
+        await fs.writeFile(probePath, probeFileName);
+        await resetFileAccessTime(probePath, (await fs.stat(probePath)).mtime);
+        const storedResetAccessTime = (await fs.stat(probePath)).atime;
+        await fs.readFile(probePath);
+        return (await fs.stat(probePath)).atime > storedResetAccessTime ? storedResetAccessTime : undefined;
+    } finally {
+        await fs.rm(probePath, { force: true });
+    }
+}
+
+/**
+ * Resets access time of restored packages, so that packages read by vcpkg
+ * during this job can be identified in post step.
+ * Returns access time that packages have after reset,
+ * or undefined if usage of packages can't be tracked on this file system
+ */
+export async function prepareUsageTracking(cacheDir: string, packages: BinaryPackage[]): Promise<Date | undefined> {
+    try {
+        const storedResetAccessTime = await probeResetAccessTime(cacheDir);
+        if (storedResetAccessTime === undefined) {
+            console.info('File system does not update access time of files, usage of packages can not be tracked');
+            return undefined;
+        }
+        await mapWithConcurrency(packages, statConcurrency, 'packages access times', (pkg) => resetFileAccessTime(pkg.filePath, pkg.mtime));
+        console.info('Reset access time of', packages.length, 'packages to', storedResetAccessTime.toISOString(), 'to track their usage');
+        return storedResetAccessTime;
+    } catch (error) {
+        console.error(error);
+        core.warning(`Failed to prepare tracking usage of packages with error ${errorAsString(error)}`);
+        return undefined;
+    }
+}
+
+function wasPackageUsed(pkg: BinaryPackage, restoreTime: Date | undefined, storedResetAccessTime: Date): boolean {
+    if (restoreTime !== undefined && pkg.mtime > restoreTime) {
+        return true;
+    }
+    return pkg.atime > storedResetAccessTime;
+}
+
+function parseUsageEntry(entry: any): PackageUsage | undefined {
+    const lastUsed = new Date(entry?.lastUsed);
+    if (isNaN(lastUsed.getTime())) {
+        return undefined;
+    }
+    return { lastUsed: lastUsed };
+}
+
+export async function loadPackagesUsage(cacheDir: string): Promise<PackagesUsage> {
+    const usageFilePath = path.join(cacheDir, usageFileName);
+    try {
+        return await loadPackagesFile(usageFilePath, usageFileVersion, parseUsageEntry) ?? new Map();
+    } catch (error) {
+        core.warning(`Failed to read ${usageFilePath}, ignoring it: ${errorAsString(error)}`);
+        return new Map();
+    }
+}
+
+export async function savePackagesUsage(cacheDir: string, usage: PackagesUsage) {
+    const usageFilePath = path.join(cacheDir, usageFileName);
+    try {
+        await savePackagesFile(usageFilePath, usageFileVersion, usage, (entry) => ({ lastUsed: entry.lastUsed.toISOString() }));
+    } catch (error) {
+        console.error(error);
+        core.warning(`Failed to write ${usageFilePath} with error ${errorAsString(error)}`);
+    }
+}
+
+/**
+ * Returns usage of current packages, updated with results of this job.
+ * Packages that are not in binary cache anymore are dropped
+ */
+export function updatePackagesUsage(
+    cacheDir: string,
+    previousUsage: PackagesUsage,
+    packages: BinaryPackage[],
+    restoreTime: Date | undefined,
+    storedResetAccessTime: Date,
+    now: Date
+): PackagesUsage {
+    const usage: PackagesUsage = new Map();
+    for (const pkg of packages) {
+        const filePath = relativePackagePath(cacheDir, pkg.filePath);
+        const previous = previousUsage.get(filePath);
+        if (wasPackageUsed(pkg, restoreTime, storedResetAccessTime)) {
+            usage.set(filePath, { lastUsed: now });
+        } else if (previous !== undefined) {
+            usage.set(filePath, previous);
+        } else {
+            // Package was restored from cache saved before usage tracking was enabled
+            usage.set(filePath, { lastUsed: pkg.mtime });
+        }
+    }
+    return usage;
+}
+
+export function getPackageUsage(cacheDir: string, usage: PackagesUsage, pkg: BinaryPackage): PackageUsage | undefined {
+    return usage.get(relativePackagePath(cacheDir, pkg.filePath));
+}
+
+export function deletePackageUsage(cacheDir: string, usage: PackagesUsage, pkg: BinaryPackage) {
+    usage.delete(relativePackagePath(cacheDir, pkg.filePath));
+}
+
+export function isUnusedForDays(usage: PackageUsage, days: number, now: Date): boolean {
+    return now.getTime() - usage.lastUsed.getTime() >= days * millisecondsInDay;
+}
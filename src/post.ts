@@ -1,9 +1,12 @@
-import * as cache from '@actions/cache';
 import * as core from '@actions/core';
 import * as fs from 'fs/promises';
-import path from 'path';
-import { AbortActionError, binaryCachePathState, BinaryPackage, binaryPackagesCountState, cacheKeyState, errorAsString, findBinaryPackagesInDir, getEnvVariable, mainStepSucceededState, parseInputs, runMain } from './common.js';
-import { Architecture, extractBinaryPackageControl, PackageName } from './extractControl.js';
+import { AbortActionError, archiveReadConcurrency, binaryCachePathState, BinaryPackage, cacheKeyState, cacheKeyWithRunId, cacheRestoreKeyState, cacheRestoreTimeState, errorAsString, getEnvVariable, Inputs, mainStepSucceededState, mapWithConcurrency, parseInputs, partitionRestoreKey, relativePackagePath, resetAccessTimeState, restoredPackagesCountState, runMain, scanBinaryPackages, statConcurrency, vcpkgRootState, vcpkgToolCacheKeyState, vcpkgToolCachePaths, writeJobSummary } from './common.js';
+import { CacheBackend, createCacheBackend } from './cacheBackend.js';
+import { partitionStagingDir, stagePartition } from './cachePartitions.js';
+import { extractBinaryPackageControl } from './extractControl.js';
+import { deleteIndexedMetadata, getIndexedMetadata, loadPackagesIndex, packageMetadata, PackageMetadata, PackagesIndex, savePackagesIndex, setIndexedMetadata } from './packagesIndex.js';
+import { diffPackages, loadPackagesSnapshot, PackagesDiff } from './packagesSnapshot.js';
+import { deletePackageUsage, getPackageUsage, isUnusedForDays, loadPackagesUsage, PackagesUsage, savePackagesUsage, updatePackagesUsage } from './packagesUsage.js';
 
 function bytesToMibibytesString(bytes: number): string {
     return (bytes / (1024.0 * 1024.0)).toFixed(2) + ' MiB';
@@ -11,31 +14,32 @@ function bytesToMibibytesString(bytes: number): string {
 
 async function findBinaryPackages(): Promise<BinaryPackage[]> {
     core.startGroup('Searching packages in binary cache');
-    const packages: BinaryPackage[] = [];
-
-    let totalSize = 0;
-    const statPackage = async (filePath: string) => {
-        const stat = await fs.stat(filePath);
-        totalSize += stat.size;
-        packages.push({ filePath: filePath, size: stat.size, mtime: stat.mtime });
-    };
-
-    const statPromises: Promise<void>[] = [];
-    await findBinaryPackagesInDir(core.getState(binaryCachePathState), (dirPath, fileName) => {
-        statPromises.push(statPackage(path.join(dirPath, fileName)));
-    });
-    await Promise.all(statPromises);
-
-    console.info(`Found ${packages.length} binary packages total size is ${bytesToMibibytesString(totalSize)}`);
+    const packages = await scanBinaryPackages(core.getState(binaryCachePathState));
+    console.info(`Found ${packages.length} binary packages`);
+    console.info(`Total size of binary packages is ${bytesToMibibytesString(totalSize(packages))}`);
 
     return packages;
 }
 
-function areThereNewBinaryPackages(packages: BinaryPackage[]): boolean {
-    const previousCount = parseInt(core.getState(binaryPackagesCountState));
-    console.info('Previous count of binary packages is', previousCount);
-    const binaryPackagesCount = packages.length;
-    return binaryPackagesCount !== previousCount;
+function logPackagesDiffPart(description: string, filePaths: string[]) {
+    console.info(`${description} binary packages: ${filePaths.length}`);
+    for (const filePath of filePaths) {
+        console.info(` - ${filePath}`);
+    }
+}
+
+/**
+ * Packages removed since cache was restored don't require saving cache, restored cache is still valid
+ */
+function areThereNewBinaryPackages(diff: PackagesDiff | undefined): boolean {
+    if (diff === undefined) {
+        console.info('Snapshot of restored binary packages is not available, assuming there are new packages');
+        return true;
+    }
+    logPackagesDiffPart('Added', diff.added);
+    logPackagesDiffPart('Changed', diff.changed);
+    logPackagesDiffPart('Removed', diff.removed);
+    return diff.added.length > 0 || diff.changed.length > 0;
 }
 
 function computeIfAbsent<K, V>(map: Map<K, V>, key: K, mappingFunction: (key: K) => V): V {
@@ -47,72 +51,358 @@ function computeIfAbsent<K, V>(map: Map<K, V>, key: K, mappingFunction: (key: K)
     return value;
 }
 
-async function removeOldVersions(packages: BinaryPackage[]) {
-    core.startGroup('Removing old versions of packages');
-    const identifiedPackages = new Map<PackageName, Map<Architecture, BinaryPackage[]>>();
+type IdentifiedPackage = {
+    pkg: BinaryPackage;
+    metadata: PackageMetadata;
+};
+
+/**
+ * Metadata of packages that weren't changed since index was saved is taken from index,
+ * only new packages are read. Returned index contains only given packages
+ */
+async function identifyPackages(packages: BinaryPackage[], previousIndex: PackagesIndex): Promise<[IdentifiedPackage[], PackagesIndex]> {
+    const cacheDir = core.getState(binaryCachePathState);
+    const index: PackagesIndex = new Map();
+    const identifiedPackages: IdentifiedPackage[] = [];
+    const unknownPackages: BinaryPackage[] = [];
     for (const pkg of packages) {
+        const metadata = getIndexedMetadata(cacheDir, previousIndex, pkg);
+        if (metadata !== undefined) {
+            identifiedPackages.push({ pkg: pkg, metadata: metadata });
+            setIndexedMetadata(cacheDir, index, pkg, metadata);
+        } else {
+            unknownPackages.push(pkg);
+        }
+    }
+    console.info('Metadata of', identifiedPackages.length, 'binary packages is taken from packages index');
+
+    console.info('Reading metadata of', unknownPackages.length, 'binary packages');
+    const readPackages = await mapWithConcurrency(unknownPackages, archiveReadConcurrency, 'binary packages metadata', async (pkg) => {
         try {
-            const control = await extractBinaryPackageControl(pkg);
-            const pkgsWithSameName = computeIfAbsent(identifiedPackages, control.packageName, () => {
-                return new Map<Architecture, BinaryPackage[]>();
-            });
-            const pkgsWithSameNameAndArch = computeIfAbsent(pkgsWithSameName, control.architecture, () => { return []; });
-            pkgsWithSameNameAndArch.push(pkg);
+            return { pkg: pkg, metadata: packageMetadata(await extractBinaryPackageControl(pkg)) };
         } catch (error) {
             console.error('Failed to extract metadata from package', pkg.filePath, error);
+            return undefined;
+        }
+    });
+    for (const identified of readPackages) {
+        if (identified !== undefined) {
+            identifiedPackages.push(identified);
+            setIndexedMetadata(cacheDir, index, identified.pkg, identified.metadata);
         }
     }
+    return [identifiedPackages, index];
+}
+
+function restoredPackagesCount(): number | undefined {
+    const count = parseInt(core.getState(restoredPackagesCountState));
+    return isNaN(count) ? undefined : count;
+}
+
+function cacheRestoreTime(): Date | undefined {
+    const restoreTimeMs = parseInt(core.getState(cacheRestoreTimeState));
+    return isNaN(restoreTimeMs) ? undefined : new Date(restoreTimeMs);
+}
+
+/**
+ * Returns access time of packages after it was reset in main step, or undefined if usage of packages was not tracked
+ */
+function storedResetAccessTime(): Date | undefined {
+    const resetAccessTimeMs = parseInt(core.getState(resetAccessTimeState));
+    return isNaN(resetAccessTimeMs) ? undefined : new Date(resetAccessTimeMs);
+}
+
+async function removePackages(packages: RemovedPackage[], dryRun: boolean) {
+    core.startGroup('Removing packages');
+    if (packages.length === 0) {
+        console.info('Did not remove any packages');
+        core.endGroup();
+        return;
+    }
+    for (const { pkg, reason } of packages) {
+        console.info(` - ${dryRun ? 'Would remove' : 'Removing'} ${pkg.filePath} (${reason}), with size ${bytesToMibibytesString(pkg.size)}`);
+    }
+    const size = bytesToMibibytesString(totalSize(packages.map(({ pkg }) => pkg)));
+    if (dryRun) {
+        console.info(`Dry run is enabled, ${packages.length} packages with total size ${size} were not removed`);
+        core.endGroup();
+        return;
+    }
+    try {
+        await mapWithConcurrency(packages, statConcurrency, 'removed packages', ({ pkg }) => fs.rm(pkg.filePath));
+    } catch (error) {
+        console.error(error);
+        throw new AbortActionError(`Failed to remove packages with error '${errorAsString(error)}'`);
+    }
+    console.info(`Removed ${packages.length} packages with total size ${size}`);
+    core.endGroup();
+}
+
+function featuresString(metadata: PackageMetadata): string {
+    return [...metadata.features].sort().join(',');
+}
+
+/**
+ * Packages are grouped by name, architecture and set of features. Packages in the same group differ
+ * only in ABI, i.e. they were built from another version of port or its dependencies.
+ * In each group the newest package is kept, as well as packages that were used after it was created,
+ * according to usage history including this job (they are still reachable, e.g. from different manifests
+ * or from other jobs of matrix that use different versions of dependencies).
+ * Other packages were superseded and are removed. When usage of packages is unknown, all packages are kept
+ */
+async function removeOldVersions(packages: BinaryPackage[], identifiedPackages: IdentifiedPackage[], usage: PackagesUsage | undefined): Promise<BinaryPackage[]> {
+    core.startGroup('Finding old versions of packages');
+    if (usage === undefined) {
+        console.info('Usage of packages is unknown, skip removing old versions of packages');
+        core.endGroup();
+        return [];
+    }
+    const cacheDir = core.getState(binaryCachePathState);
+
+    const groups = new Map<string, IdentifiedPackage[]>();
+    for (const identified of identifiedPackages) {
+        const { packageName, architecture } = identified.metadata;
+        computeIfAbsent(groups, `${packageName}|${architecture}|${featuresString(identified.metadata)}`, () => []).push(identified);
+    }
+
     const remainingPackages = new Set(packages);
-    const rmPromises: Promise<void>[] = [];
-    for (const [packageName, pkgsWithSameName] of identifiedPackages) {
-        for (const [architecture, pkgsWithSameNameAndArch] of pkgsWithSameName) {
-            // Sort by mtime in descending order, so that oldest files are at the end
-            pkgsWithSameNameAndArch.sort((a, b) => {
-                return b.mtime.getTime() - a.mtime.getTime();
-            });
-            console.info(`Packages with name ${packageName} and architecture ${architecture}:`);
-            while (pkgsWithSameNameAndArch.length > 1) {
-                const pkg = pkgsWithSameNameAndArch.pop()!!;
-                console.info(` - Removing ${pkg.filePath}, with size ${bytesToMibibytesString(pkg.size)} and mtime ${pkg.mtime.toISOString()}`);
-                rmPromises.push(fs.rm(pkg.filePath));
-                remainingPackages.delete(pkg);
+    const removedPackages: BinaryPackage[] = [];
+    for (const group of groups.values()) {
+        // Sort by mtime in descending order, so that oldest files are at the end
+        group.sort((a, b) => {
+            return b.pkg.mtime.getTime() - a.pkg.mtime.getTime();
+        });
+        const latest = group[0]!!;
+        const { packageName, architecture } = latest.metadata;
+        console.info(`Packages with name ${packageName}, architecture ${architecture} and features [${featuresString(latest.metadata)}]:`);
+        console.info(` - Latest is ${latest.pkg.filePath} with ABI ${latest.metadata.abi}, size ${bytesToMibibytesString(latest.pkg.size)} and mtime ${latest.pkg.mtime.toISOString()}`);
+        for (const { pkg, metadata } of group.slice(1)) {
+            // Packages created or used during this job were last used now
+            const lastUsed = getPackageUsage(cacheDir, usage, pkg)!!.lastUsed;
+            if (lastUsed > latest.pkg.mtime) {
+                console.info(` - Keeping ${pkg.filePath} with ABI ${metadata.abi} since it was used after latest package was created, at ${lastUsed.toISOString()}`);
+                continue;
             }
+            console.info(` - Superseded ${pkg.filePath} with ABI ${metadata.abi}, size ${bytesToMibibytesString(pkg.size)}, mtime ${pkg.mtime.toISOString()} and last used at ${lastUsed.toISOString()}`);
+            remainingPackages.delete(pkg);
+            removedPackages.push(pkg);
+        }
+    }
+    if (removedPackages.length > 0) {
+        console.info('Packages count without old versions is', remainingPackages.size, 'and total size is', bytesToMibibytesString(totalSize(remainingPackages)));
+    } else {
+        console.info('There are no old versions of packages');
+    }
+    core.endGroup();
+    return removedPackages;
+}
 
-            const last = pkgsWithSameNameAndArch[0]!!;
-            console.info(` - Latest is ${last.filePath}, with size ${bytesToMibibytesString(last.size)} and mtime ${last.mtime.toISOString()}`);
+/**
+ * Returns usage of packages updated with results of this job,
+ * or undefined if usage of packages was not tracked
+ */
+async function updateUsageOfPackages(packages: BinaryPackage[]): Promise<PackagesUsage | undefined> {
+    const resetAccessTime = storedResetAccessTime();
+    if (resetAccessTime === undefined) {
+        console.info('Usage of packages was not tracked during this job');
+        return undefined;
+    }
+    const cacheDir = core.getState(binaryCachePathState);
+    return updatePackagesUsage(cacheDir, await loadPackagesUsage(cacheDir), packages, cacheRestoreTime(), resetAccessTime, new Date());
+}
+
+async function evictUnusedPackages(packages: BinaryPackage[], days: number | undefined, usage: PackagesUsage | undefined): Promise<BinaryPackage[]> {
+    core.startGroup('Finding unused packages');
+    if (days === undefined) {
+        console.info('Eviction of unused packages is disabled');
+        core.endGroup();
+        return [];
+    }
+    if (usage === undefined) {
+        console.info('Usage of packages is unknown, skip evicting unused packages');
+        core.endGroup();
+        return [];
+    }
+    console.info(`Evicting packages that were not used for ${days} days by jobs that saved cache`);
+    const cacheDir = core.getState(binaryCachePathState);
+    const now = new Date();
+    const evictedPackages: BinaryPackage[] = [];
+    for (const pkg of packages) {
+        const pkgUsage = getPackageUsage(cacheDir, usage, pkg)!!;
+        if (isUnusedForDays(pkgUsage, days, now)) {
+            console.info(` - Unused ${pkg.filePath}, with size ${bytesToMibibytesString(pkg.size)}, last used at ${pkgUsage.lastUsed.toISOString()}`);
+            evictedPackages.push(pkg);
         }
     }
-    if (rmPromises.length > 0) {
-        try {
-            await Promise.all(rmPromises);
-        } catch (error) {
-            console.error(error);
-            throw new AbortActionError(`Failed to remove packages with error '${errorAsString(error)}'`);
+    if (evictedPackages.length === 0) {
+        console.info('There are no unused packages');
+    }
+    core.endGroup();
+    return evictedPackages;
+}
+
+/**
+ * Evicts least recently used packages until their total size fits in maximum cache size.
+ * When usage of packages is unknown, oldest packages are evicted first
+ */
+async function limitCacheSize(packages: BinaryPackage[], maxCacheSize: number | undefined, usage: PackagesUsage | undefined): Promise<BinaryPackage[]> {
+    core.startGroup('Limiting binary cache size');
+    if (maxCacheSize === undefined) {
+        console.info('Maximum cache size is not set');
+        core.endGroup();
+        return [];
+    }
+    let size = totalSize(packages);
+    console.info(`Total size of packages is ${bytesToMibibytesString(size)}, maximum cache size is ${bytesToMibibytesString(maxCacheSize)}`);
+    if (size <= maxCacheSize) {
+        console.info('Binary cache fits in maximum cache size');
+        core.endGroup();
+        return [];
+    }
+
+    const cacheDir = core.getState(binaryCachePathState);
+    const lastUsed = (pkg: BinaryPackage): Date => {
+        return (usage !== undefined ? getPackageUsage(cacheDir, usage, pkg)?.lastUsed : undefined) ?? pkg.mtime;
+    };
+    const sortedPackages = [...packages].sort((a, b) => {
+        return lastUsed(a).getTime() - lastUsed(b).getTime() || a.mtime.getTime() - b.mtime.getTime();
+    });
+    const evictedPackages: BinaryPackage[] = [];
+    for (const pkg of sortedPackages) {
+        if (size <= maxCacheSize) {
+            break;
         }
-        let totalSize = [...remainingPackages].reduce((prev, cur) => prev + cur.size, 0);
-        console.info('New packages count is', remainingPackages.size, 'and total size is', bytesToMibibytesString(totalSize));
-    } else {
-        console.info('Did not remove any packages');
+        console.info(` - Least recently used ${pkg.filePath}, with size ${bytesToMibibytesString(pkg.size)} and last used at ${lastUsed(pkg).toISOString()}`);
+        evictedPackages.push(pkg);
+        size -= pkg.size;
     }
+    console.info(`Evicting ${evictedPackages.length} packages frees ${bytesToMibibytesString(totalSize(evictedPackages))}, new total size is ${bytesToMibibytesString(size)}`);
     core.endGroup();
+    return evictedPackages;
 }
 
-async function saveCache() {
+async function saveCache(cacheBackend: CacheBackend, dirPath: string, key: string): Promise<boolean> {
     core.startGroup('Saving cache');
-    const key = core.getState(cacheKeyState);
+    console.info('Saving cache', dirPath, 'with key', key);
+    let saved = false;
+    try {
+        saved = await cacheBackend.saveCache([dirPath], key);
+    } catch (error) {
+        console.error(error);
+        core.error(`Failed to save cache with error ${errorAsString(error)}`);
+    }
+    core.endGroup();
+    return saved;
+}
+
+async function saveVcpkgToolCache(inputs: Inputs, cacheBackend: CacheBackend, report: SaveReport) {
+    core.startGroup('Saving vcpkg tool cache');
+    const key = core.getState(vcpkgToolCacheKeyState);
     if (!key) {
-        throw new AbortActionError('Cache key is not set');
+        console.info('Vcpkg tool was not rebuilt, skip saving vcpkg tool cache');
+        core.endGroup();
+        return;
     }
-    console.info('Saving cache with key', key);
+    if (inputs.pruneDryRun) {
+        console.info('Dry run is enabled, skip saving vcpkg tool cache');
+        report.vcpkgToolCacheResult = 'Not saved, dry run';
+        core.endGroup();
+        return;
+    }
+    console.info('Saving vcpkg tool cache with key', key);
     try {
-        await cache.saveCache([core.getState(binaryCachePathState)], key);
+        if (await cacheBackend.saveCache(vcpkgToolCachePaths(core.getState(vcpkgRootState)), key)) {
+            report.vcpkgToolCacheResult = `Saved with key ${key}`;
+        } else {
+            report.vcpkgToolCacheResult = `Failed to save with key ${key}`;
+        }
     } catch (error) {
         console.error(error);
-        core.error(`Failed to save cache with error ${errorAsString(error)}`);
+        core.error(`Failed to save vcpkg tool cache with error ${errorAsString(error)}`);
+        report.vcpkgToolCacheResult = `Failed to save with key ${key}`;
     }
     core.endGroup();
 }
 
+type RemovedPackage = {
+    pkg: BinaryPackage;
+    reason: string;
+};
+
+type SaveReport = {
+    restoredPackagesCount: number | undefined;
+    previousPackagesCount: number | undefined;
+    packagesDiff: PackagesDiff | undefined;
+    packages: BinaryPackage[] | undefined;
+    identifiedPackages: IdentifiedPackage[] | undefined;
+    removedPackages: RemovedPackage[];
+    dryRun: boolean;
+    cacheResult: string;
+    vcpkgToolCacheResult: string | undefined;
+};
+
+// Job summary size is limited, don't list every package for huge caches
+const MAX_SUMMARY_PACKAGES_ROWS = 1000 as const;
+
+function totalSize(packages: Iterable<BinaryPackage>): number {
+    let size = 0;
+    for (const pkg of packages) {
+        size += pkg.size;
+    }
+    return size;
+}
+
+async function writeSummary(report: SaveReport) {
+    const summary = core.summary.addHeading('Vcpkg binary cache saving', 3);
+    const rows: [string, string][] = [];
+    if (report.restoredPackagesCount !== undefined) {
+        rows.push(['Packages restored from cache', report.restoredPackagesCount.toString()]);
+    }
+    // Differs from restored packages when binary cache directory already contained packages, e.g. on self-hosted runners
+    if (report.previousPackagesCount !== undefined) {
+        rows.push(['Packages before build', report.previousPackagesCount.toString()]);
+    }
+    if (report.packages !== undefined) {
+        rows.push(['Packages after build', `${report.packages.length} (${bytesToMibibytesString(totalSize(report.packages))})`]);
+        if (report.packagesDiff !== undefined) {
+            const { added, changed, removed } = report.packagesDiff;
+            rows.push(['Packages changed during job', `${added.length} added, ${changed.length} changed, ${removed.length} removed`]);
+        }
+        const removedPackages = report.removedPackages.map(({ pkg }) => pkg);
+        rows.push([report.dryRun ? 'Packages to remove (dry run)' : 'Packages removed', `${removedPackages.length} (${bytesToMibibytesString(totalSize(removedPackages))})`]);
+    }
+    rows.push(['Binary cache', report.cacheResult]);
+    if (report.vcpkgToolCacheResult !== undefined) {
+        rows.push(['Vcpkg tool cache', report.vcpkgToolCacheResult]);
+    }
+    summary.addTable(rows.map(([name, value]) => [{ data: name, header: true }, value]));
+
+    if (report.identifiedPackages !== undefined) {
+        const removed = new Set(report.removedPackages.map(({ pkg }) => pkg));
+        const packageRows = report.identifiedPackages
+            .filter(({ pkg }) => !removed.has(pkg))
+            .map(({ pkg, metadata }) => [metadata.packageName, metadata.architecture, featuresString(metadata) || 'core', bytesToMibibytesString(pkg.size)]);
+        packageRows.sort((a, b) => a[0]!!.localeCompare(b[0]!!) || a[1]!!.localeCompare(b[1]!!) || a[2]!!.localeCompare(b[2]!!));
+        summary.addRaw(`<details><summary>Packages in binary cache (${packageRows.length})</summary>`, true);
+        summary.addTable([
+            [{ data: 'Package', header: true }, { data: 'Architecture', header: true }, { data: 'Features', header: true }, { data: 'Size', header: true }],
+            ...packageRows.slice(0, MAX_SUMMARY_PACKAGES_ROWS)
+        ]);
+        if (packageRows.length > MAX_SUMMARY_PACKAGES_ROWS) {
+            summary.addRaw(`${packageRows.length - MAX_SUMMARY_PACKAGES_ROWS} more packages are not shown`, true);
+        }
+        summary.addRaw('</details>', true);
+    }
+
+    if (report.removedPackages.length > 0) {
+        summary.addRaw(`<details><summary>${report.dryRun ? 'Packages to remove (dry run)' : 'Removed packages'} (${report.removedPackages.length})</summary>`, true);
+        summary.addList(report.removedPackages.slice(0, MAX_SUMMARY_PACKAGES_ROWS).map(({ pkg, reason }) => `${pkg.filePath} (${bytesToMibibytesString(pkg.size)}, ${reason})`));
+        summary.addRaw('</details>', true);
+    }
+
+    await writeJobSummary();
+}
+
 async function main() {
     const mainStepSucceeded = core.getState(mainStepSucceededState);
     if (mainStepSucceeded !== 'true') {
@@ -124,18 +414,170 @@ async function main() {
         console.info('Cache saving is disabled, skip saving cache');
         return;
     }
+    const cacheBackend = createCacheBackend(inputs);
+    const report: SaveReport = {
+        restoredPackagesCount: restoredPackagesCount(),
+        previousPackagesCount: undefined,
+        packagesDiff: undefined,
+        packages: undefined,
+        identifiedPackages: undefined,
+        removedPackages: [],
+        dryRun: false,
+        cacheResult: 'Not saved',
+        vcpkgToolCacheResult: undefined
+    };
+    try {
+        await saveVcpkgToolCache(inputs, cacheBackend, report);
+        await saveBinaryCache(inputs, cacheBackend, report);
+    } finally {
+        await writeSummary(report);
+    }
+}
+
+async function saveBinaryCache(inputs: Inputs, cacheBackend: CacheBackend, report: SaveReport) {
     const packages = await findBinaryPackages();
+    report.packages = packages;
     if (packages.length == 0) {
         console.info('No binary packages, skip saving cache');
+        report.cacheResult = 'Not saved, no binary packages';
         return;
     }
-    if (!areThereNewBinaryPackages(packages)) {
-        console.info('No new binary packages, skip saving cache');
+    const cacheDir = core.getState(binaryCachePathState);
+    const snapshot = await loadPackagesSnapshot();
+    report.previousPackagesCount = snapshot?.size;
+    report.packagesDiff = snapshot !== undefined ? diffPackages(cacheDir, snapshot, packages) : undefined;
+    // Packages are identified even if cache is not saved, to show them in job summary
+    const previousIndex = await loadPackagesIndex(cacheDir) ?? new Map();
+    const [identifiedPackages, index] = await identifyPackages(packages, previousIndex);
+    report.identifiedPackages = identifiedPackages;
+    const newPackages = areThereNewBinaryPackages(report.packagesDiff);
+    if (!newPackages) {
+        if (!inputs.pruneDryRun) {
+            console.info('No new or changed binary packages, skip saving cache');
+            report.cacheResult = 'Not saved, no new or changed binary packages';
+            return;
+        }
+        // Packages that would be removed are still listed, so that pruning options can be tuned
+        console.info('No new or changed binary packages, cache would not be saved');
+    } else {
+        console.info('There are new or changed binary packages');
+    }
+    const usage = await updateUsageOfPackages(packages);
+    const oldVersions = await removeOldVersions(packages, report.identifiedPackages, usage);
+    report.removedPackages.push(...oldVersions.map((pkg) => ({ pkg: pkg, reason: 'old version' })));
+    const oldVersionsSet = new Set(oldVersions);
+    const remainingPackages = packages.filter((pkg) => !oldVersionsSet.has(pkg));
+    const unusedPackages = await evictUnusedPackages(remainingPackages, inputs.evictUnusedPackagesDays, usage);
+    report.removedPackages.push(...unusedPackages.map((pkg) => ({ pkg: pkg, reason: 'unused' })));
+    const unusedPackagesSet = new Set(unusedPackages);
+    const leastRecentlyUsedPackages = await limitCacheSize(remainingPackages.filter((pkg) => !unusedPackagesSet.has(pkg)), inputs.maxCacheSize, usage);
+    report.removedPackages.push(...leastRecentlyUsedPackages.map((pkg) => ({ pkg: pkg, reason: 'exceeded maximum cache size' })));
+    const remainingSize = totalSize(packages) - totalSize(report.removedPackages.map(({ pkg }) => pkg));
+
+    await removePackages(report.removedPackages, inputs.pruneDryRun);
+    if (inputs.pruneDryRun) {
+        report.dryRun = true;
+        report.cacheResult = newPackages
+            ? `Not saved, dry run is enabled (${bytesToMibibytesString(remainingSize)} of packages would be saved)`
+            : 'Not saved, dry run is enabled (no new or changed binary packages)';
         return;
     }
-    console.info('There are new binary packages');
-    await removeOldVersions(packages);
-    await saveCache();
+    for (const { pkg } of report.removedPackages) {
+        deleteIndexedMetadata(cacheDir, index, pkg);
+    }
+    await savePackagesIndex(cacheDir, index);
+    if (usage !== undefined) {
+        for (const { pkg } of report.removedPackages) {
+            deletePackageUsage(cacheDir, usage, pkg);
+        }
+        await savePackagesUsage(cacheDir, usage);
+    }
+    if (inputs.partitionCacheByTriplet) {
+        const removed = new Set(report.removedPackages.map(({ pkg }) => pkg));
+        const remainingPackages = report.identifiedPackages.filter(({ pkg }) => !removed.has(pkg));
+        const unidentifiedCount = packages.length - removed.size - remainingPackages.length;
+        if (unidentifiedCount > 0) {
+            core.warning(`${unidentifiedCount} binary packages without readable metadata are not saved to any cache partition`);
+        }
+        const removedArchitectures = new Set<string>(report.identifiedPackages.filter(({ pkg }) => removed.has(pkg)).map(({ metadata }) => metadata.architecture));
+        // Packages that were removed before post step don't exist anymore, their architecture is taken from index saved before
+        for (const filePath of report.packagesDiff?.removed ?? []) {
+            const entry = previousIndex.get(filePath);
+            if (entry !== undefined) {
+                removedArchitectures.add(entry.metadata.architecture);
+            }
+        }
+        report.cacheResult = await saveCachePartitions(inputs, cacheBackend, remainingPackages, index, usage, report.packagesDiff, removedArchitectures);
+        return;
+    }
+    const key = core.getState(cacheKeyState);
+    if (!key) {
+        throw new AbortActionError('Cache key is not set');
+    }
+    if (await saveCache(cacheBackend, cacheDir, key)) {
+        report.cacheResult = `Saved with key ${key} (${bytesToMibibytesString(remainingSize)} of packages)`;
+    } else {
+        report.cacheResult = `Failed to save with key ${key}`;
+    }
+}
+
+/**
+ * Packages are split into partitions by their architecture, i.e. triplet.
+ * Only partitions with new, changed or removed packages are saved, other partitions are still valid in cache.
+ * Partition which packages were all removed is saved empty, so that they are not restored from previous entry
+ */
+async function saveCachePartitions(
+    inputs: Inputs,
+    cacheBackend: CacheBackend,
+    packages: IdentifiedPackage[],
+    index: PackagesIndex,
+    usage: PackagesUsage | undefined,
+    diff: PackagesDiff | undefined,
+    removedArchitectures: Set<string>
+): Promise<string> {
+    const cacheDir = core.getState(binaryCachePathState);
+    const restoreKey = core.getState(cacheRestoreKeyState);
+    if (!restoreKey) {
+        throw new AbortActionError('Cache restore key is not set');
+    }
+    const changedPaths = diff !== undefined ? new Set([...diff.added, ...diff.changed]) : undefined;
+    const partitions = new Map<string, BinaryPackage[]>();
+    for (const { pkg, metadata } of packages) {
+        computeIfAbsent(partitions, metadata.architecture, () => []).push(pkg);
+    }
+    for (const architecture of removedArchitectures) {
+        computeIfAbsent(partitions, architecture, () => []);
+    }
+
+    const results: string[] = [];
+    for (const [triplet, partitionPackages] of partitions) {
+        const partitionSize = bytesToMibibytesString(totalSize(partitionPackages));
+        if (changedPaths !== undefined && !removedArchitectures.has(triplet)
+            && !partitionPackages.some((pkg) => changedPaths.has(relativePackagePath(cacheDir, pkg.filePath)))) {
+            console.info(`Partition of triplet ${triplet} has no new, changed or removed packages, skip saving it`);
+            results.push(`${triplet}: not changed (${partitionSize})`);
+            continue;
+        }
+        if (!inputs.triplets.includes(triplet)) {
+            core.warning(`Packages of triplet ${triplet} are saved to separate cache partition, but it won't be restored since triplet is not listed in triplets input`);
+        }
+        if (partitionPackages.length === 0) {
+            console.info(`All packages of triplet ${triplet} were removed, saving empty partition`);
+        }
+        const stagingDir = partitionStagingDir(triplet);
+        const key = cacheKeyWithRunId(partitionRestoreKey(restoreKey, triplet));
+        try {
+            await stagePartition(cacheDir, stagingDir, partitionPackages, index, usage);
+            if (await saveCache(cacheBackend, stagingDir, key)) {
+                results.push(`${triplet}: saved with key ${key} (${partitionSize})`);
+            } else {
+                results.push(`${triplet}: failed to save with key ${key}`);
+            }
+        } finally {
+            await fs.rm(stagingDir, { recursive: true, force: true });
+        }
+    }
+    return results.join('<br>');
 }
 
 await runMain(main);
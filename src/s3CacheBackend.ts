@@ -0,0 +1,295 @@
+import * as core from '@actions/core';
+import * as crypto from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as https from 'https';
+import { env } from 'process';
+import { pipeline } from 'stream/promises';
+import { cacheArchiveExtension, CacheEntry, cacheVersion, createCacheArchive, extractCacheArchive, matchCacheEntry, temporaryArchivePath } from './cacheArchive.js';
+import type { CacheBackend } from './cacheBackend.js';
+import { AbortActionError, Inputs } from './common.js';
+
+const signingAlgorithm = 'AWS4-HMAC-SHA256' as const;
+const unsignedPayload = 'UNSIGNED-PAYLOAD' as const;
+const emptyPayloadHash = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855' as const;
+/**
+ * Request fails when no data is sent or received for this time, so that unresponsive storage doesn't block job
+ */
+const requestTimeoutSeconds = 120 as const;
+
+type S3Credentials = {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken: string | undefined;
+};
+
+type S3Config = {
+    endpoint: URL;
+    bucket: string;
+    region: string;
+    prefix: string;
+    credentials: S3Credentials;
+};
+
+type S3Request = {
+    method: 'GET' | 'PUT';
+    objectKey: string | undefined;
+    query: [string, string][];
+    upload?: { filePath: string; size: number };
+    downloadFilePath?: string;
+};
+
+/**
+ * Credentials are read directly from environment so that they are not printed to log
+ */
+function readCredentials(): S3Credentials {
+    const accessKeyId = env['AWS_ACCESS_KEY_ID'];
+    const secretAccessKey = env['AWS_SECRET_ACCESS_KEY'];
+    if (!accessKeyId || !secretAccessKey) {
+        throw new AbortActionError('AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY environment variables must be set when cache-backend is s3');
+    }
+    return { accessKeyId: accessKeyId, secretAccessKey: secretAccessKey, sessionToken: env['AWS_SESSION_TOKEN'] || undefined };
+}
+
+/**
+ * URI encoding of Signature Version 4, which also encodes characters that encodeURIComponent keeps
+ */
+function uriEncode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(data: string): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: crypto.BinaryLike, data: string): Buffer {
+    return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Requests use path-style URLs, since they are supported by S3-compatible storages like MinIO
+ */
+function requestPath(config: S3Config, objectKey: string | undefined): string {
+    const basePath = config.endpoint.pathname.replace(/\/+$/, '');
+    const segments = [config.bucket, ...(objectKey !== undefined ? objectKey.split('/') : [])];
+    return `${basePath}/${segments.map(uriEncode).join('/')}`;
+}
+
+/**
+ * Signs request using AWS Signature Version 4. Returns headers of request
+ */
+function signRequest(config: S3Config, method: string, pathname: string, query: string, payloadHash: string, headers: Record<string, string>): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const date = amzDate.slice(0, 8);
+    const signedHeaders: Record<string, string> = {
+        ...headers,
+        'host': config.endpoint.host,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate
+    };
+    if (config.credentials.sessionToken !== undefined) {
+        signedHeaders['x-amz-security-token'] = config.credentials.sessionToken;
+    }
+    const headerNames = Object.keys(signedHeaders).sort();
+    const canonicalRequest = [
+        method,
+        pathname,
+        query,
+        ...headerNames.map((name) => `${name}:${signedHeaders[name]!!.trim()}`),
+        '',
+        headerNames.join(';'),
+        payloadHash
+    ].join('\n');
+    const scope = `${date}/${config.region}/s3/aws4_request`;
+    const stringToSign = [signingAlgorithm, amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    let signingKey = hmac(`AWS4${config.credentials.secretAccessKey}`, date);
+    for (const part of [config.region, 's3', 'aws4_request']) {
+        signingKey = hmac(signingKey, part);
+    }
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+    return {
+        ...signedHeaders,
+        'authorization': `${signingAlgorithm} Credential=${config.credentials.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`
+    };
+}
+
+async function readBody(response: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of response) {
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+}
+
+function xmlElements(xml: string, name: string): string[] {
+    return [...xml.matchAll(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`, 'g'))].map((match) => match[1]!!);
+}
+
+function xmlUnescape(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+        switch (entity) {
+            case 'amp': return '&';
+            case 'lt': return '<';
+            case 'gt': return '>';
+            case 'quot': return '"';
+            case 'apos': return '\'';
+        }
+        return String.fromCodePoint(entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1)));
+    });
+}
+
+async function sendRequest(config: S3Config, request: S3Request): Promise<string> {
+    const pathname = requestPath(config, request.objectKey);
+    const query = request.query
+        .map(([name, value]) => `${uriEncode(name)}=${uriEncode(value)}`)
+        .sort()
+        .join('&');
+    const headers = signRequest(
+        config,
+        request.method,
+        pathname,
+        query,
+        request.upload !== undefined ? unsignedPayload : emptyPayloadHash,
+        request.upload !== undefined ? { 'content-length': request.upload.size.toString() } : {}
+    );
+    const client = config.endpoint.protocol === 'https:' ? https : http;
+    const response: http.IncomingMessage = await new Promise((resolve, reject) => {
+        let response: http.IncomingMessage | undefined;
+        const clientRequest = client.request({
+            protocol: config.endpoint.protocol,
+            hostname: config.endpoint.hostname,
+            port: config.endpoint.port,
+            method: request.method,
+            path: query ? `${pathname}?${query}` : pathname,
+            headers: headers,
+            timeout: requestTimeoutSeconds * 1000
+        }, (incomingMessage) => {
+            response = incomingMessage;
+            resolve(incomingMessage);
+        });
+        // Timeout of socket also applies while response is read, response is destroyed so that reading it fails with the same error
+        clientRequest.on('timeout', () => {
+            const error = Error(`${request.method} ${pathname} timed out, no data was transferred for ${requestTimeoutSeconds} seconds`);
+            clientRequest.destroy(error);
+            response?.destroy(error);
+        });
+        clientRequest.on('error', reject);
+        if (request.upload !== undefined) {
+            pipeline(createReadStream(request.upload.filePath), clientRequest).catch(reject);
+        } else {
+            clientRequest.end();
+        }
+    });
+    const statusCode = response.statusCode ?? 0;
+    if (statusCode < 200 || statusCode >= 300) {
+        const body = await readBody(response);
+        const code = xmlElements(body, 'Code')[0];
+        const message = xmlElements(body, 'Message')[0];
+        throw Error(`${request.method} ${pathname} failed with HTTP status ${statusCode}${code ? `, ${code}: ${message ?? ''}` : ''}`);
+    }
+    if (request.downloadFilePath !== undefined) {
+        await pipeline(response, createWriteStream(request.downloadFilePath));
+        return '';
+    }
+    return await readBody(response);
+}
+
+/**
+ * Object keys are URI encoded cache keys followed by version, so that prefix of cache key is also prefix of object key.
+ * Encoded cache key never contains '/', so it separates cache key from version
+ */
+function objectKey(config: S3Config, key: string, version: string): string {
+    return `${config.prefix}${encodeURIComponent(key)}/${version}${cacheArchiveExtension}`;
+}
+
+async function listCacheEntries(config: S3Config, keyPrefix: string): Promise<CacheEntry[]> {
+    const prefix = `${config.prefix}${encodeURIComponent(keyPrefix)}`;
+    const entries: CacheEntry[] = [];
+    let continuationToken: string | undefined;
+    do {
+        const query: [string, string][] = [['list-type', '2'], ['prefix', prefix]];
+        if (continuationToken !== undefined) {
+            query.push(['continuation-token', continuationToken]);
+        }
+        const body = await sendRequest(config, { method: 'GET', objectKey: undefined, query: query });
+        for (const contents of xmlElements(body, 'Contents')) {
+            const name = xmlUnescape(xmlElements(contents, 'Key')[0] ?? '');
+            const lastModified = Date.parse(xmlElements(contents, 'LastModified')[0] ?? '');
+            if (!name.startsWith(config.prefix) || !name.endsWith(cacheArchiveExtension) || isNaN(lastModified)) {
+                continue;
+            }
+            const [encodedKey, version, ...rest] = name.slice(config.prefix.length, -cacheArchiveExtension.length).split('/');
+            if (version === undefined || rest.length > 0) {
+                continue;
+            }
+            try {
+                entries.push({ key: decodeURIComponent(encodedKey!!), version: version, createdAt: lastModified });
+            } catch {
+                // Object was not created by this action
+            }
+        }
+        continuationToken = xmlElements(body, 'IsTruncated')[0] === 'true' ? xmlElements(body, 'NextContinuationToken')[0] : undefined;
+    } while (continuationToken !== undefined);
+    return entries;
+}
+
+/**
+ * Entries are stored as archives in S3-compatible object storage, credentials are taken from
+ * AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY and AWS_SESSION_TOKEN environment variables
+ */
+export function createS3CacheBackend(inputs: Inputs): CacheBackend {
+    const config: S3Config = {
+        endpoint: new URL(inputs.s3Endpoint),
+        bucket: inputs.s3Bucket,
+        region: inputs.s3Region,
+        prefix: inputs.s3Prefix,
+        credentials: readCredentials()
+    };
+    return {
+        description: `S3 bucket ${config.bucket} at ${config.endpoint.origin}`,
+        restoreCache: async (paths, key, restoreKeys) => {
+            const entries = new Map<string, CacheEntry>();
+            for (const keyPrefix of new Set([key, ...restoreKeys ?? []])) {
+                for (const entry of await listCacheEntries(config, keyPrefix)) {
+                    entries.set(objectKey(config, entry.key, entry.version), entry);
+                }
+            }
+            const entry = matchCacheEntry([...entries.values()], cacheVersion(paths), key, restoreKeys ?? []);
+            if (entry === undefined) {
+                return undefined;
+            }
+            const [archiveFilePath, removeArchive] = await temporaryArchivePath();
+            try {
+                const entryObjectKey = objectKey(config, entry.key, entry.version);
+                console.info('Downloading', entryObjectKey);
+                await sendRequest(config, { method: 'GET', objectKey: entryObjectKey, query: [], downloadFilePath: archiveFilePath });
+                await extractCacheArchive(archiveFilePath);
+            } finally {
+                await removeArchive();
+            }
+            return entry.key;
+        },
+        saveCache: async (paths, key) => {
+            const version = cacheVersion(paths);
+            if ((await listCacheEntries(config, key)).some((entry) => entry.key === key && entry.version === version)) {
+                core.warning(`Cache entry with key ${key} already exists in S3 bucket ${config.bucket}`);
+                return false;
+            }
+            const [archiveFilePath, removeArchive] = await temporaryArchivePath();
+            try {
+                if (!await createCacheArchive(paths, archiveFilePath)) {
+                    core.warning('Paths of cache entry do not exist, cache is not saved');
+                    return false;
+                }
+                const size = (await fs.stat(archiveFilePath)).size;
+                const entryObjectKey = objectKey(config, key, version);
+                console.info('Uploading', entryObjectKey, 'with size', size);
+                await sendRequest(config, { method: 'PUT', objectKey: entryObjectKey, query: [], upload: { filePath: archiveFilePath, size: size } });
+            } finally {
+                await removeArchive();
+            }
+            return true;
+        }
+    };
+}
@@ -0,0 +1,48 @@
+import * as core from '@actions/core';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AbortActionError, archiveReadConcurrency, BinaryPackage, CorruptedPackageAction, errorAsString, getEnvVariable, mapWithConcurrency, moveFile } from './common.js';
+import { verifyBinaryPackageArchive } from './extractControl.js';
+
+const quarantineDirName = 'action-setup-vcpkg-quarantine' as const;
+
+/**
+ * Deletes corrupted package, or moves it to quarantine directory if it is set
+ */
+async function removeCorruptedPackage(cacheDir: string, filePath: string, quarantineDir: string | undefined) {
+    try {
+        if (quarantineDir !== undefined) {
+            const quarantinePath = path.join(quarantineDir, path.relative(cacheDir, filePath));
+            await moveFile(filePath, quarantinePath);
+            console.info(` - Moved ${filePath} to ${quarantinePath}`);
+        } else {
+            await fs.rm(filePath);
+            console.info(` - Deleted ${filePath}`);
+        }
+    } catch (error) {
+        console.error(error);
+        throw new AbortActionError(`Failed to remove corrupted package ${filePath} with error '${errorAsString(error)}'`);
+    }
+}
+
+/**
+ * Opens every package archive in binary cache and checks its central directory and CONTROL file,
+ * so that truncated or corrupted packages are removed before vcpkg tries to extract them.
+ * Returns corrupted packages
+ */
+export async function verifyBinaryPackages(cacheDir: string, packages: BinaryPackage[], action: Exclude<CorruptedPackageAction, 'none'>): Promise<BinaryPackage[]> {
+    console.info('Verifying integrity of restored binary packages');
+    const quarantineDir = action === 'quarantine' ? path.join(getEnvVariable('RUNNER_TEMP'), quarantineDirName) : undefined;
+    const corruptedPackages: BinaryPackage[] = [];
+    await mapWithConcurrency(packages, archiveReadConcurrency, 'binary packages', async (pkg) => {
+        try {
+            await verifyBinaryPackageArchive(pkg.filePath);
+        } catch (error) {
+            corruptedPackages.push(pkg);
+            core.warning(`Binary package ${pkg.filePath} is corrupted: ${errorAsString(error)}`);
+            await removeCorruptedPackage(cacheDir, pkg.filePath, quarantineDir);
+        }
+    });
+    console.info(`Verified ${packages.length} binary packages, ${corruptedPackages.length} of them are corrupted`);
+    return corruptedPackages;
+}